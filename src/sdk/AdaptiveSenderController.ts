@@ -0,0 +1,120 @@
+import {
+  AdaptationReason,
+  MediaStats,
+  SenderAdaptation,
+  VideoEncodingSettings,
+} from '../types/media';
+
+// Consecutive samples before degrading or restoring quality
+const DEGRADE_SAMPLES = 2;
+const RECOVER_SAMPLES = 5;
+
+// Degrade above these, recover below the lower ones (RTT in seconds)
+const DEGRADE_LOSS = 0.05;
+const DEGRADE_RTT = 0.4;
+const RECOVER_LOSS = 0.02;
+const RECOVER_RTT = 0.25;
+
+// Required spare bandwidth before enabling the next encoding again
+const BANDWIDTH_HEADROOM = 1.2;
+
+const REDUCED_FRAMERATE = 15;
+
+/**
+ * Decides how far to degrade the camera producer from its outgoing stats.
+ * Drops the top simulcast encoding on sustained congestion or when the estimated
+ * bandwidth cannot carry it, caps the frame rate while the CPU is the limit,
+ * and steps back up once conditions stay good.
+ */
+export class AdaptiveSenderController {
+  private encodings: VideoEncodingSettings[];
+  private maxSpatialLayer: number;
+  private maxFramerate?: number;
+  private congestedSamples = 0;
+  private healthySamples = 0;
+  private cpuLimitedSamples = 0;
+  private cpuIdleSamples = 0;
+
+  constructor(encodings: VideoEncodingSettings[]) {
+    this.encodings = encodings;
+    this.maxSpatialLayer = encodings.length - 1;
+  }
+
+  /**
+   * Feed a stats sample of the producer. Returns the new limits if they changed.
+   */
+  evaluate(stats: MediaStats): SenderAdaptation | undefined {
+    const loss = stats.fractionLost ?? 0;
+    const rtt = stats.roundTripTime ?? 0;
+    const available = stats.availableOutgoingBitrate;
+
+    const congested = loss > DEGRADE_LOSS || rtt > DEGRADE_RTT;
+    const bandwidthLimited =
+      available !== undefined && available < this.bitrateUpTo(this.maxSpatialLayer);
+    const healthy =
+      loss < RECOVER_LOSS &&
+      rtt < RECOVER_RTT &&
+      (available === undefined ||
+        available >= this.bitrateUpTo(this.maxSpatialLayer + 1) * BANDWIDTH_HEADROOM);
+
+    this.congestedSamples = congested || bandwidthLimited ? this.congestedSamples + 1 : 0;
+    this.healthySamples = healthy ? this.healthySamples + 1 : 0;
+    this.cpuLimitedSamples = stats.cpuLimited ? this.cpuLimitedSamples + 1 : 0;
+    this.cpuIdleSamples = stats.cpuLimited ? 0 : this.cpuIdleSamples + 1;
+
+    if (this.congestedSamples >= DEGRADE_SAMPLES && this.maxSpatialLayer > 0) {
+      this.maxSpatialLayer--;
+      this.congestedSamples = 0;
+      return this.adaptation(congested ? 'congestion' : 'bandwidth');
+    }
+
+    if (this.cpuLimitedSamples >= DEGRADE_SAMPLES && this.maxFramerate === undefined) {
+      this.maxFramerate = REDUCED_FRAMERATE;
+      return this.adaptation('cpu');
+    }
+
+    if (this.cpuIdleSamples >= RECOVER_SAMPLES && this.maxFramerate !== undefined) {
+      this.maxFramerate = undefined;
+      this.cpuIdleSamples = 0;
+      return this.adaptation('recovered');
+    }
+
+    if (
+      this.healthySamples >= RECOVER_SAMPLES &&
+      this.maxSpatialLayer < this.encodings.length - 1
+    ) {
+      this.maxSpatialLayer++;
+      this.healthySamples = 0;
+      return this.adaptation('recovered');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Frame rate of every encoding under the current cap. Encodings configured below
+   * the cap keep their own rate, and all of them get their configured rate back on recovery.
+   */
+  encodingFramerates(): Array<number | undefined> {
+    const cap = this.maxFramerate;
+    return this.encodings.map(encoding =>
+      cap === undefined ? encoding.maxFramerate : Math.min(encoding.maxFramerate ?? cap, cap)
+    );
+  }
+
+  /**
+   * Total bitrate of the encodings up to a spatial layer.
+   */
+  private bitrateUpTo(spatialLayer: number): number {
+    return this.encodings
+      .slice(0, spatialLayer + 1)
+      .reduce((total, encoding) => total + encoding.maxBitrate, 0);
+  }
+
+  /**
+   * Current limits tagged with the reason they changed.
+   */
+  private adaptation(reason: AdaptationReason): SenderAdaptation {
+    return { maxSpatialLayer: this.maxSpatialLayer, maxFramerate: this.maxFramerate, reason };
+  }
+}
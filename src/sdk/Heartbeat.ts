@@ -0,0 +1,72 @@
+import { HeartbeatOptions } from '../types/options';
+import { PingMessage } from '../types/signaling';
+
+/**
+ * Pings the signaling server at a fixed interval and measures the round trip.
+ * Declares the connection dead once too many pings in a row went unanswered,
+ * which on a silently dropped link happens long before the socket closes.
+ */
+export class Heartbeat {
+  private options: HeartbeatOptions;
+  private onDead: () => void;
+  private timer?: ReturnType<typeof setInterval>;
+  // Timestamp of the ping still waiting for its pong
+  private outstanding?: number;
+  private missedBeats = 0;
+  private lastRtt?: number;
+
+  constructor(options: HeartbeatOptions, onDead: () => void) {
+    this.options = options;
+    this.onDead = onDead;
+  }
+
+  /**
+   * Start pinging through `send`, replacing a previous run.
+   */
+  start(send: (message: PingMessage) => void): void {
+    this.stop();
+    if (this.options.interval === 0) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.beat(send), this.options.interval);
+  }
+
+  /**
+   * Record the server's answer to a ping.
+   */
+  handlePong(timestamp: number): void {
+    this.lastRtt = Date.now() - timestamp;
+    this.outstanding = undefined;
+    this.missedBeats = 0;
+  }
+
+  /**
+   * Stop pinging, e.g. when the connection closed.
+   */
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    this.outstanding = undefined;
+    this.missedBeats = 0;
+  }
+
+  /**
+   * Round trip of the last answered ping in ms.
+   */
+  get rtt(): number | undefined {
+    return this.lastRtt;
+  }
+
+  private beat(send: (message: PingMessage) => void): void {
+    if (this.outstanding !== undefined && ++this.missedBeats >= this.options.maxMissed) {
+      console.warn(`[Heartbeat] ${this.missedBeats} pings unanswered, connection is dead`);
+      this.stop();
+      this.onDead();
+      return;
+    }
+
+    this.outstanding = Date.now();
+    send({ type: 'ping', timestamp: this.outstanding });
+  }
+}
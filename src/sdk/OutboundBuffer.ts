@@ -0,0 +1,129 @@
+import { OutboundBufferOptions, OutboundPolicy } from '../types/options';
+import { ClientToServerMessage } from '../types/signaling';
+import { SignalingUnavailableError } from './errors';
+
+/**
+ * Message held until the connection is restored, with the callers' promises to settle
+ */
+interface HeldMessage {
+  type: string;
+  key: string;
+  deliver: () => Promise<unknown>;
+  settle: (outcome: Promise<unknown>) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * Fields naming what a message acts on; coalesced messages replace earlier ones with the same target
+ */
+const TARGET_FIELDS = ['producerId', 'consumerId', 'transportId', 'userId'] as const;
+
+/**
+ * Key of the state a coalesced message sets, e.g. the mute state of one producer
+ */
+function coalescingKey(message: ClientToServerMessage): string {
+  const fields: Record<string, unknown> = { ...message };
+  const target = TARGET_FIELDS.map(field => fields[field]).find(value => typeof value === 'string');
+  return `${message.type}:${target ?? ''}`;
+}
+
+/**
+ * Holds messages sent while the signaling connection is being restored and sends them,
+ * oldest first, once the session is resumed. Each message type follows its OutboundPolicy.
+ */
+export class OutboundBuffer {
+  private options: OutboundBufferOptions;
+  private held: HeldMessage[] = [];
+
+  constructor(options: OutboundBufferOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Hold a message until flush(), then settle with the result of `deliver`.
+   * Rejects with SignalingUnavailableError if the message is dropped, does not fit or expires.
+   */
+  hold<T>(message: ClientToServerMessage, deliver: () => Promise<T>): Promise<T> {
+    const policy = this.policyFor(message.type);
+    if (policy === 'drop') {
+      return Promise.reject(new SignalingUnavailableError(message.type, 'connection is down'));
+    }
+
+    return new Promise<T>((resolve, reject) => {
+      const key = coalescingKey(message);
+      const previous = policy === 'coalesce' ? this.held.find(held => held.key === key) : undefined;
+      if (previous) {
+        this.remove(previous);
+      } else if (this.held.length >= this.options.maxMessages) {
+        reject(new SignalingUnavailableError(message.type, 'outbound buffer is full'));
+        return;
+      }
+
+      // A superseded message settles with the one replacing it
+      const held: HeldMessage = {
+        type: message.type,
+        key,
+        deliver,
+        settle: outcome => {
+          (outcome as Promise<T>).then(resolve, reject);
+          previous?.settle(outcome);
+        },
+        reject: error => {
+          reject(error);
+          previous?.reject(error);
+        },
+        timer: setTimeout(() => {
+          this.remove(held);
+          held.reject(
+            new SignalingUnavailableError(
+              message.type,
+              `connection not restored within ${this.options.maxAge}ms`
+            )
+          );
+        }, this.options.maxAge),
+      };
+      this.held.push(held);
+    });
+  }
+
+  /**
+   * Send every held message, oldest first.
+   */
+  flush(): void {
+    const held = this.held.splice(0);
+    if (held.length > 0) {
+      console.log(`[OutboundBuffer] Sending ${held.length} held messages`);
+    }
+    for (const message of held) {
+      clearTimeout(message.timer);
+      message.settle(message.deliver());
+    }
+  }
+
+  /**
+   * Reject every held message, e.g. when the call cannot be resumed.
+   */
+  clear(reason: string): void {
+    for (const message of this.held.splice(0)) {
+      clearTimeout(message.timer);
+      message.reject(new SignalingUnavailableError(message.type, reason));
+    }
+  }
+
+  /**
+   * Number of messages currently held.
+   */
+  get size(): number {
+    return this.held.length;
+  }
+
+  private policyFor(type: ClientToServerMessage['type']): OutboundPolicy {
+    return this.options.policies[type] ?? 'replay';
+  }
+
+  private remove(held: HeldMessage): void {
+    clearTimeout(held.timer);
+    this.held.splice(this.held.indexOf(held), 1);
+  }
+}
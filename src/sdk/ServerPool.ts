@@ -0,0 +1,108 @@
+import { ServerUrlResolver, SignalingServers } from '../types/options';
+
+/**
+ * Signaling servers a client can connect to and how each has been doing.
+ * Picks the last server that worked first, then moves on to the ones failing least,
+ * so a lost connection fails over to another node instead of retrying a dead one.
+ */
+export class ServerPool {
+  private urls: string[] = [];
+  private resolver?: ServerUrlResolver;
+  // Failed connection attempts in a row per server
+  private failures = new Map<string, number>();
+  private currentUrl?: string;
+  private lastGoodUrl?: string;
+
+  constructor(servers: SignalingServers) {
+    if (typeof servers === 'function') {
+      this.resolver = servers;
+      return;
+    }
+
+    this.urls = Array.isArray(servers) ? [...servers] : [servers];
+    if (this.urls.length === 0) {
+      throw new Error("Invalid option 'serverUrl': expected at least one URL");
+    }
+  }
+
+  /**
+   * Pick the server for the next connection, asking the resolver for the current list first.
+   */
+  async pick(): Promise<string> {
+    if (this.resolver) {
+      const urls = await this.resolver();
+      if (!Array.isArray(urls) || urls.length === 0) {
+        throw new Error('Server resolver returned no URLs');
+      }
+      this.urls = [...urls];
+    }
+    return this.next()!;
+  }
+
+  /**
+   * Pick the server for the next connection from the known URLs, if there are any yet.
+   * Tries the last good server first, then the others in order after the current one.
+   */
+  next(): string | undefined {
+    if (this.urls.length === 0) {
+      return undefined;
+    }
+
+    const start = this.currentUrl ? this.urls.indexOf(this.currentUrl) + 1 : 0;
+    const rotated = [...this.urls.slice(start), ...this.urls.slice(0, start)];
+    const candidates =
+      this.lastGoodUrl && rotated.includes(this.lastGoodUrl)
+        ? [this.lastGoodUrl, ...rotated.filter(url => url !== this.lastGoodUrl)]
+        : rotated;
+
+    let best = candidates[0];
+    for (const url of candidates) {
+      if (this.failuresOf(url) < this.failuresOf(best)) {
+        best = url;
+      }
+    }
+    this.currentUrl = best;
+    return best;
+  }
+
+  /**
+   * Record a failed connection attempt.
+   */
+  markFailed(url: string): void {
+    this.failures.set(url, this.failuresOf(url) + 1);
+  }
+
+  /**
+   * Record an opened connection, making the server the one to return to first.
+   */
+  markHealthy(url: string): void {
+    this.failures.delete(url);
+    this.lastGoodUrl = url;
+  }
+
+  /**
+   * Times every known server failed in a row at least. Grows only once no server
+   * is left to fail over to, so backoff does not delay trying a healthy one.
+   */
+  get backoffLevel(): number {
+    return this.urls.length === 0 ? 0 : Math.min(...this.urls.map(url => this.failuresOf(url)));
+  }
+
+  /**
+   * Server of the current or last connection attempt.
+   */
+  get current(): string | undefined {
+    return this.currentUrl;
+  }
+
+  /**
+   * Server the last connection opened to.
+   */
+  get lastGood(): string | undefined {
+    return this.lastGoodUrl;
+  }
+
+  private failuresOf(url: string): number {
+    return this.failures.get(url) ?? 0;
+  }
+}
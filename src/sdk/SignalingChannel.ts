@@ -1,46 +1,85 @@
-import WebSocket from 'ws';
-import { AnySignalMessage } from '../types/signaling';
+import { v4 as uuidv4 } from 'uuid';
+import {
+  AnySignalMessage,
+  ClientToServerMessage,
+  ServerToClientMessage,
+  SignalingResponse,
+} from '../types/signaling';
+import { SignalingTransport, SignalingTransportFactory } from '../types/transport';
+import { SignalingRequestError, SignalingTimeoutError } from './errors';
+import { WebSocketTransport } from './transports/WebSocketTransport';
 
 /**
- * A signaling channel abstraction over WebSocket.
+ * Default time to wait for a response to a signaling request
+ */
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
+/**
+ * Bookkeeping for a request awaiting its correlated response
+ */
+interface PendingRequest {
+  type: string;
+  resolve: (message: ServerToClientMessage) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+/**
+ * A signaling channel over a SignalingTransport, WebSocket by default.
  * Allows subscribing to message types and handles message queuing before connection.
  */
 export class SignalingChannel {
-  private socket: WebSocket;
+  private transport: SignalingTransport;
   private listeners = new Map<string, ((data: unknown) => void)[]>();
   private isConnected = false;
-  // Queue of messages to be sent once the WebSocket connection is open
+  private isClosed = false;
+  // Queue of messages to be sent once the connection is open
   private messageQueue: AnySignalMessage[] = [];
+  // Requests awaiting a response, keyed by requestId
+  private pendingRequests = new Map<string, PendingRequest>();
 
-  constructor(serverUrl: string) {
-    this.socket = new WebSocket(serverUrl);
+  constructor(
+    serverUrl: string,
+    createTransport: SignalingTransportFactory = url => new WebSocketTransport(url)
+  ) {
+    this.transport = createTransport(serverUrl);
+    this.transport.connect({
+      // Handle incoming messages from the server
+      onMessage: data => {
+        const parsed = JSON.parse(data) as AnySignalMessage;
 
-    // Handle incoming messages from the server
-    this.socket.on('message', data => {
-      const parsed = JSON.parse(data.toString()) as AnySignalMessage;
-      this.emit(parsed.type, parsed);
-    });
+        // Correlated error responses are delivered to the requester only
+        if (this.settleRequest(parsed) && parsed.type === 'error') {
+          return;
+        }
+        this.emit(parsed.type, parsed);
+      },
 
-    // On successful connection, mark as connected and flush queued messages
-    this.socket.on('open', () => {
-      this.isConnected = true;
-      // Flush all messages that were queued before connection opened
-      while (this.messageQueue.length > 0) {
-        const message = this.messageQueue.shift()!;
-        this.socket.send(JSON.stringify(message));
-      }
-      this.emit('open', {});
-    });
+      // On successful connection, mark as connected and flush queued messages
+      onOpen: () => {
+        this.isConnected = true;
+        // Flush all messages that were queued before connection opened
+        while (this.messageQueue.length > 0) {
+          const message = this.messageQueue.shift()!;
+          this.transport.send(JSON.stringify(message));
+        }
+        this.emit('open', {});
+      },
 
-    // Forward error events
-    this.socket.on('error', err => {
-      this.emit('error', err);
-    });
+      // Forward error events
+      onError: err => {
+        this.emit('error', err);
+      },
 
-    // Handle connection close
-    this.socket.on('close', () => {
-      this.isConnected = false;
-      this.emit('close', {});
+      // Handle connection close
+      onClose: () => {
+        this.isConnected = false;
+        this.isClosed = true;
+        this.rejectPendingRequests(
+          new SignalingRequestError('Connection closed', 'close', 'CONNECTION_CLOSED')
+        );
+        this.emit('close', {});
+      },
     });
   }
 
@@ -49,7 +88,7 @@ export class SignalingChannel {
    */
   send(message: AnySignalMessage) {
     if (this.isConnected) {
-      this.socket.send(JSON.stringify(message));
+      this.transport.send(JSON.stringify(message));
     } else {
       this.messageQueue.push(message);
     }
@@ -61,13 +100,13 @@ export class SignalingChannel {
   async sendWhenReady(message: AnySignalMessage): Promise<void> {
     return new Promise((resolve, reject) => {
       if (this.isConnected) {
-        this.socket.send(JSON.stringify(message));
+        this.transport.send(JSON.stringify(message));
         return resolve();
       }
 
       // If not yet connected, wait for 'open' or fail on 'error'
       const onOpen = () => {
-        this.socket.send(JSON.stringify(message));
+        this.transport.send(JSON.stringify(message));
         this.off('open', onOpen);
         this.off('error', onError);
         resolve();
@@ -84,6 +123,37 @@ export class SignalingChannel {
     });
   }
 
+  /**
+   * Send a request and resolve with the server message carrying the same requestId.
+   * Rejects with SignalingRequestError on an error response and SignalingTimeoutError on timeout.
+   */
+  request<
+    TReq extends ClientToServerMessage,
+    TRes extends ServerToClientMessage = SignalingResponse<TReq>,
+  >(message: TReq, timeoutMs = DEFAULT_REQUEST_TIMEOUT): Promise<TRes> {
+    const requestId = uuidv4();
+
+    return new Promise<TRes>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        reject(new SignalingTimeoutError(message.type, timeoutMs));
+      }, timeoutMs);
+
+      this.pendingRequests.set(requestId, {
+        type: message.type,
+        resolve: response => resolve(response as TRes),
+        reject,
+        timer,
+      });
+
+      this.sendWhenReady({ ...message, requestId }).catch(error => {
+        clearTimeout(timer);
+        this.pendingRequests.delete(requestId);
+        reject(error);
+      });
+    });
+  }
+
   /**
    * Subscribe to a message type (e.g., 'joined', 'newProducer', 'error').
    */
@@ -107,6 +177,39 @@ export class SignalingChannel {
     }
   }
 
+  /**
+   * Resolve or reject the pending request a server message answers.
+   * Returns whether the message was correlated with a pending request.
+   */
+  private settleRequest(message: AnySignalMessage): boolean {
+    const requestId = message.requestId;
+    const pending = requestId ? this.pendingRequests.get(requestId) : undefined;
+    if (!requestId || !pending) {
+      return false;
+    }
+
+    clearTimeout(pending.timer);
+    this.pendingRequests.delete(requestId);
+
+    if (message.type === 'error') {
+      pending.reject(new SignalingRequestError(message.message, pending.type, message.code));
+    } else {
+      pending.resolve(message as ServerToClientMessage);
+    }
+    return true;
+  }
+
+  /**
+   * Reject every pending request, e.g. when the connection goes away.
+   */
+  private rejectPendingRequests(error: Error) {
+    for (const pending of this.pendingRequests.values()) {
+      clearTimeout(pending.timer);
+      pending.reject(error);
+    }
+    this.pendingRequests.clear();
+  }
+
   /**
    * Internal method to trigger all listeners of a given message type.
    */
@@ -116,9 +219,33 @@ export class SignalingChannel {
   }
 
   /**
-   * Returns whether the socket is currently connected.
+   * Close the underlying transport. A closed channel cannot be reopened.
+   */
+  close() {
+    this.isClosed = true;
+    this.messageQueue = [];
+    this.transport.close();
+  }
+
+  /**
+   * Drop the transport at once, without a closing handshake a dead link would never finish.
+   * Unlike close(), this is reported as a lost connection.
+   */
+  terminate() {
+    this.transport.terminate();
+  }
+
+  /**
+   * Returns whether the transport is currently connected.
    */
   get connected(): boolean {
     return this.isConnected;
   }
+
+  /**
+   * Returns whether the channel has been closed, locally or by the server.
+   */
+  get closed(): boolean {
+    return this.isClosed;
+  }
 }
@@ -1,9 +1,49 @@
 import { EventQueue } from '../utils/EventQueue';
 import { TypedEventEmitter } from '../utils/TypedEventEmitter';
 import { ConnectionStatus, VideoCallEvents } from '../types/events';
+import {
+  CallStats,
+  ConsumerLayers,
+  DataChannelOptions,
+  DataPayload,
+  MediaInputDevices,
+  MediaKind,
+} from '../types/media';
+import {
+  JoinCallOptions,
+  StartAudioOptions,
+  StartVideoOptions,
+  SignalingServers,
+  VideoCallClientOptions,
+} from '../types/options';
+import { ChatMessage, ParticipantRole, PeerInfo, VideoSource } from '../types/signaling';
+import { readTokenClaims } from './auth';
+import { resolveClientOptions } from './options';
+import { ActiveSpeakerManager } from './managers/ActiveSpeakerManager';
+import { ChatManager } from './managers/ChatManager';
 import { ConnectionManager } from './managers/ConnectionManager';
+import { DataManager } from './managers/DataManager';
 import { DeviceManager } from './managers/DeviceManager';
 import { MediaManager } from './managers/MediaManager';
+import { NetworkQualityManager } from './managers/NetworkQualityManager';
+import { StatsManager } from './managers/StatsManager';
+
+/**
+ * Remote producer waiting for the device to be ready before it is consumed
+ */
+interface PendingProducer {
+  producerId: string;
+  userId: string;
+  source?: VideoSource;
+}
+
+/**
+ * Remote data producer waiting for the device to be ready before it is consumed
+ */
+interface PendingDataProducer {
+  dataProducerId: string;
+  userId: string;
+}
 
 /**
  * Main SDK client for managing video calls.
@@ -13,25 +53,73 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
   private connectionManager: ConnectionManager;
   private mediaManager: MediaManager;
   private deviceManager: DeviceManager;
+  private dataManager: DataManager;
+  private statsManager: StatsManager;
+  private networkQualityManager: NetworkQualityManager;
+  private activeSpeakerManager: ActiveSpeakerManager;
+  private chatManager: ChatManager;
   private eventQueue: EventQueue;
 
-  constructor(serverUrl: string) {
+  // Producers listed in the join response, consumed once the device is ready
+  private pendingProducers: PendingProducer[] = [];
+  private pendingDataProducers: PendingDataProducer[] = [];
+  // Role the server granted us in the current call
+  private localRole?: ParticipantRole;
+  // Participants waiting in the lobby, as seen by a host
+  private lobbyGuests = new Set<string>();
+
+  /**
+   * Create a client for one signaling server URL, an ordered list to fail over through,
+   * or a resolver returning the current list.
+   */
+  constructor(serverUrl: SignalingServers, options: VideoCallClientOptions = {}) {
     super();
-    
+
+    const resolved = resolveClientOptions(options);
+
     // Initialize managers
-    this.connectionManager = new ConnectionManager(serverUrl);
-    this.mediaManager = new MediaManager();
-    this.deviceManager = new DeviceManager(this.connectionManager);
+    this.connectionManager = new ConnectionManager(
+      serverUrl,
+      resolved.reconnection,
+      resolved.tokenProvider,
+      resolved.heartbeat,
+      resolved.outboundBuffer,
+      resolved.transport
+    );
+    this.mediaManager = new MediaManager(resolved.video, resolved.audio);
+    this.deviceManager = new DeviceManager(this.connectionManager, resolved.requestTimeout);
+    this.dataManager = new DataManager();
+    this.statsManager = new StatsManager(
+      this.deviceManager,
+      this.mediaManager,
+      resolved.statsInterval
+    );
+    this.networkQualityManager = new NetworkQualityManager();
+    this.activeSpeakerManager = new ActiveSpeakerManager(
+      this.connectionManager,
+      this.mediaManager,
+      resolved.audioLevelInterval
+    );
+    this.chatManager = new ChatManager(this.connectionManager, resolved.requestTimeout);
     this.eventQueue = new EventQueue();
 
     this.setupEventHandlers();
   }
 
   /**
-   * Join a video call room.
+   * Join a video call room as a user, or with a signed token that names the user.
+   * Resolves once the server admitted us; in a lobby-enabled or locked room that is
+   * when a host lets us in, with `lobbyStatusChanged` reporting the wait.
    */
-  async joinCall(roomId: string, userId: string): Promise<void> {
-    await this.connectionManager.joinRoom(roomId, userId);
+  async joinCall(roomId: string, userIdOrOptions: string | JoinCallOptions): Promise<void> {
+    if (typeof userIdOrOptions === 'string') {
+      await this.connectionManager.joinRoom(roomId, userIdOrOptions);
+      return;
+    }
+
+    const { token } = userIdOrOptions;
+    const { sub } = readTokenClaims(token);
+    await this.connectionManager.joinRoom(roomId, sub, token);
   }
 
   /**
@@ -40,11 +128,19 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
   async leaveCall(): Promise<void> {
     console.log('[VideoCallClient] Leaving call...');
 
-    // Stop video if active
+    // Stop local media if active
     if (this.mediaManager.hasLocalVideo) {
       await this.stopVideo();
     }
 
+    if (this.mediaManager.hasLocalAudio) {
+      await this.stopAudio();
+    }
+
+    if (this.mediaManager.hasLocalScreenShare) {
+      await this.stopScreenShare();
+    }
+
     // Cleanup all resources
     await this.cleanup();
 
@@ -53,8 +149,9 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
 
   /**
    * Start video capture and streaming.
+   * Options override the client's video settings for this call.
    */
-  async startVideo(): Promise<void> {
+  async startVideo(options?: StartVideoOptions): Promise<void> {
     return this.eventQueue.add(async () => {
       if (!this.isReady) {
         throw new Error(
@@ -66,7 +163,7 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
       const sendTransport = await this.deviceManager.createSendTransport();
       
       // Start video through media manager
-      await this.mediaManager.startVideo(sendTransport);
+      await this.mediaManager.startVideo(sendTransport, options);
     });
   }
 
@@ -74,7 +171,297 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
    * Stop video capture.
    */
   async stopVideo(): Promise<void> {
+    const producerId = this.mediaManager.videoProducerId;
+    await this.mediaManager.stopVideo();
+    await this.closeServerProducer(producerId);
+  }
+
+  /**
+   * Start microphone capture and streaming.
+   * Options override the client's audio settings for this call.
+   */
+  async startAudio(options?: StartAudioOptions): Promise<void> {
+    return this.eventQueue.add(async () => {
+      if (!this.isReady) {
+        throw new Error(
+          'Client not ready. Call joinCall() first and wait for device initialization.'
+        );
+      }
+
+      // Create send transport if needed
+      const sendTransport = await this.deviceManager.createSendTransport();
+
+      // Start audio through media manager
+      await this.mediaManager.startAudio(sendTransport, options);
+    });
+  }
+
+  /**
+   * Stop microphone capture.
+   */
+  async stopAudio(): Promise<void> {
+    const producerId = this.mediaManager.audioProducerId;
+    await this.mediaManager.stopAudio();
+    await this.closeServerProducer(producerId);
+  }
+
+  /**
+   * Pause the camera producer; remote participants see the video as muted.
+   */
+  async muteVideo(): Promise<void> {
+    if (this.mediaManager.muteVideo()) {
+      await this.setServerProducerPaused(this.mediaManager.videoProducerId, true);
+    }
+  }
+
+  /**
+   * Resume a muted camera producer.
+   */
+  async unmuteVideo(): Promise<void> {
+    if (this.mediaManager.unmuteVideo()) {
+      await this.setServerProducerPaused(this.mediaManager.videoProducerId, false);
+    }
+  }
+
+  /**
+   * Pause the microphone producer; remote participants see the audio as muted.
+   */
+  async muteAudio(): Promise<void> {
+    if (this.mediaManager.muteAudio()) {
+      await this.setServerProducerPaused(this.mediaManager.audioProducerId, true);
+    }
+  }
+
+  /**
+   * Resume a muted microphone producer.
+   */
+  async unmuteAudio(): Promise<void> {
+    if (this.mediaManager.unmuteAudio()) {
+      await this.setServerProducerPaused(this.mediaManager.audioProducerId, false);
+    }
+  }
+
+  /**
+   * List the cameras and microphones that can be selected.
+   */
+  async listDevices(): Promise<MediaInputDevices> {
+    return this.mediaManager.listDevices();
+  }
+
+  /**
+   * Switch the camera, replacing the track of active video in place.
+   */
+  async setVideoInput(deviceId: string): Promise<void> {
+    return this.eventQueue.add(async () => {
+      await this.mediaManager.setVideoInput(deviceId);
+    });
+  }
+
+  /**
+   * Switch the microphone, replacing the track of active audio in place.
+   */
+  async setAudioInput(deviceId: string): Promise<void> {
+    return this.eventQueue.add(async () => {
+      await this.mediaManager.setAudioInput(deviceId);
+    });
+  }
+
+  /**
+   * Choose which simulcast layers to receive for a remote video,
+   * e.g. the lowest for thumbnails and the highest for the active speaker.
+   */
+  async setPreferredLayers(producerId: string, layers: ConsumerLayers): Promise<void> {
+    const consumerId = this.mediaManager.setPreferredLayers(producerId, layers);
+    await this.connectionManager.request({
+      type: 'setConsumerPreferredLayers',
+      consumerId,
+      ...layers,
+    });
+  }
+
+  /**
+   * Collect a snapshot of transport, producer and consumer statistics.
+   */
+  async getStats(): Promise<CallStats> {
+    return this.statsManager.collect();
+  }
+
+  /**
+   * Start sharing the screen as a second video producer alongside the camera.
+   */
+  async startScreenShare(): Promise<void> {
+    return this.eventQueue.add(async () => {
+      if (!this.isReady) {
+        throw new Error(
+          'Client not ready. Call joinCall() first and wait for device initialization.'
+        );
+      }
+
+      // Create send transport if needed
+      const sendTransport = await this.deviceManager.createSendTransport();
+
+      // Start screen share through media manager
+      await this.mediaManager.startScreenShare(sendTransport);
+    });
+  }
+
+  /**
+   * Stop sharing the screen.
+   */
+  async stopScreenShare(): Promise<void> {
+    const producerId = this.mediaManager.screenShareProducerId;
+    await this.mediaManager.stopScreenShare();
+    await this.closeServerProducer(producerId);
+  }
+
+  /**
+   * Send a message to every other participant on the data channel with the given label.
+   * The channel is opened on first use with the given reliability options.
+   */
+  async sendData(
+    label: string,
+    payload: DataPayload,
+    options?: DataChannelOptions
+  ): Promise<void> {
+    if (!this.dataManager.hasChannel(label)) {
+      await this.eventQueue.add(async () => {
+        if (!this.isReady) {
+          throw new Error(
+            'Client not ready. Call joinCall() first and wait for device initialization.'
+          );
+        }
+
+        // Create send transport if needed
+        const sendTransport = await this.deviceManager.createSendTransport();
+        await this.dataManager.openChannel(sendTransport, label, options);
+      });
+    }
+
+    await this.dataManager.send(label, payload);
+  }
+
+  /**
+   * Send a chat message over the signaling connection to the whole room,
+   * or only to the participant given in `to`. Resolves with the message as stored by the server.
+   */
+  async sendChatMessage(text: string, options: { to?: string } = {}): Promise<ChatMessage> {
+    return this.chatManager.send(text, options.to);
+  }
+
+  /**
+   * Mute another participant's microphone or camera. Requires the host or presenter role.
+   */
+  async muteParticipant(userId: string, kind: MediaKind = 'audio'): Promise<void> {
+    if (userId === this.connectionManager.currentRoom.userId) {
+      return kind === 'audio' ? this.muteAudio() : this.muteVideo();
+    }
+    this.assertInCall();
+    await this.connectionManager.request({ type: 'muteParticipant', userId, kind });
+  }
+
+  /**
+   * Remove a participant from the call. Requires the host role.
+   */
+  async removeParticipant(userId: string): Promise<void> {
+    this.assertInCall();
+    await this.connectionManager.request({ type: 'removeParticipant', userId });
+  }
+
+  /**
+   * Lock the room so only current participants can (re)join, or unlock it. Requires the host role.
+   */
+  async lockRoom(locked = true): Promise<void> {
+    this.assertInCall();
+    await this.connectionManager.request({ type: 'lockRoom', locked });
+  }
+
+  /**
+   * Make new participants of this meeting wait in the lobby until a host admits them,
+   * or let them straight in again. Requires the host role.
+   */
+  async setLobby(enabled = true): Promise<void> {
+    this.assertInCall();
+    await this.connectionManager.request({ type: 'setLobby', enabled });
+  }
+
+  /**
+   * End the call for every participant and leave it. Requires the host role.
+   */
+  async endCallForAll(): Promise<void> {
+    this.assertInCall();
+    await this.connectionManager.endCallForAll();
+    await this.leaveCall();
+  }
+
+  /**
+   * Let a participant waiting in the lobby into the call. Requires the host role.
+   */
+  async admitParticipant(userId: string): Promise<void> {
+    this.assertInCall();
+    await this.connectionManager.request({ type: 'admit', userId });
+  }
+
+  /**
+   * Turn away a participant waiting in the lobby. Requires the host role.
+   */
+  async denyParticipant(userId: string): Promise<void> {
+    this.assertInCall();
+    await this.connectionManager.request({ type: 'deny', userId });
+  }
+
+  private assertInCall(): void {
+    if (!this.connectionManager.currentRoom.roomId) {
+      throw new Error('Not in a call. Call joinCall() first.');
+    }
+  }
+
+  /**
+   * Tell the server a local producer was closed so other participants drop it.
+   */
+  private async closeServerProducer(producerId?: string): Promise<void> {
+    if (!producerId || !this.connectionManager.canSend) {
+      return;
+    }
+
+    try {
+      await this.connectionManager.request({ type: 'closeProducer', producerId });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[VideoCallClient] Failed to close producer on server:', errorMessage);
+    }
+  }
+
+  /**
+   * Tell the server a local producer was paused or resumed so others see the mute state.
+   */
+  private async setServerProducerPaused(
+    producerId: string | undefined,
+    paused: boolean
+  ): Promise<void> {
+    if (!producerId || !this.connectionManager.canSend) {
+      return;
+    }
+
+    try {
+      await this.connectionManager.request({
+        type: paused ? 'pauseProducer' : 'resumeProducer',
+        producerId,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[VideoCallClient] Failed to update producer mute state:', errorMessage);
+    }
+  }
+
+  /**
+   * Tear down the call locally once the server removed us. It already released our
+   * peer and its producers, so nothing is sent to it.
+   */
+  private async leaveAfterRemoval(): Promise<void> {
     await this.mediaManager.stopVideo();
+    await this.mediaManager.stopAudio();
+    await this.mediaManager.stopScreenShare();
+    await this.cleanup();
   }
 
   /**
@@ -83,8 +470,18 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
   private async cleanup(): Promise<void> {
     console.log('[VideoCallClient] Cleaning up resources...');
 
+    this.pendingProducers = [];
+    this.pendingDataProducers = [];
+    this.localRole = undefined;
+    this.lobbyGuests.clear();
+    this.statsManager.stop();
+    this.networkQualityManager.reset();
+    this.activeSpeakerManager.reset();
+    this.chatManager.reset();
+
     await this.connectionManager.leaveRoom();
     await this.mediaManager.cleanup();
+    this.dataManager.cleanup();
     await this.deviceManager.cleanup();
   }
 
@@ -104,8 +501,32 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
     });
 
     this.connectionManager.on('joined', (data) => {
-      console.log(`[VideoCallClient] Joined room: ${data.roomId}`);
-      this.emit('joined', data);
+      console.log(`[VideoCallClient] Joined room: ${data.roomId} with ${data.peers.length} peers`);
+
+      this.pendingProducers = data.peers.flatMap(peer =>
+        peer.producers.map(producer => ({
+          producerId: producer.id,
+          userId: peer.userId,
+          source: producer.source,
+        }))
+      );
+      this.pendingDataProducers = data.peers.flatMap(peer =>
+        (peer.dataProducers ?? []).map(dataProducer => ({
+          dataProducerId: dataProducer.id,
+          userId: peer.userId,
+        }))
+      );
+      this.localRole = data.role;
+      this.emit('joined', { roomId: data.roomId, userId: data.userId, peers: data.peers });
+      this.chatManager.receive(data.chatHistory);
+
+      if (data.activeSpeaker) {
+        this.activeSpeakerManager.handleServerActiveSpeaker(data.activeSpeaker);
+      }
+
+      if (this.deviceManager.isReady) {
+        this.consumePendingProducers();
+      }
     });
 
     this.connectionManager.on('error', (error) => {
@@ -118,14 +539,23 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
       this.emit('reconnecting');
     });
 
-    this.connectionManager.on('reconnected', async () => {
-      console.log('[VideoCallClient] Reconnected');
+    this.connectionManager.on('reconnected', async (data) => {
+      console.log(`[VideoCallClient] Reconnected${data.resumed ? ' (session resumed)' : ''}`);
+      this.localRole = data.role ?? this.localRole;
       this.emit('reconnected');
-      
-      // Restore video if it was active
-      if (this.mediaManager.videoWasActive && this.deviceManager.sendTransportInstance) {
-        await this.mediaManager.restoreVideoIfNeeded(this.deviceManager.sendTransportInstance);
-      }
+
+      // Messages sent while we were offline
+      this.chatManager.receive(data.chatHistory);
+
+      await this.eventQueue.add(async () => {
+        try {
+          await this.recoverMedia(data.peers);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          console.error('[VideoCallClient] Media recovery failed:', errorMessage);
+          this.emit('error', error instanceof Error ? error : new Error(errorMessage));
+        }
+      });
     });
 
     this.connectionManager.on('reconnectionFailed', (error) => {
@@ -133,6 +563,10 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
       this.emit('reconnectionFailed', error);
     });
 
+    this.connectionManager.on('serverChanged', (data) => {
+      this.emit('serverChanged', data);
+    });
+
     // Device initialization
     this.connectionManager.on('routerRtpCapabilities', async (data) => {
       await this.eventQueue.add(async () => {
@@ -149,6 +583,9 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
     this.deviceManager.on('deviceReady', () => {
       console.log('[VideoCallClient] Device ready');
       this.emit('deviceReady');
+      this.statsManager.start();
+      this.activeSpeakerManager.start();
+      this.consumePendingProducers();
     });
 
     // Media events
@@ -162,8 +599,156 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
       this.emit('localVideoStopped');
     });
 
+    this.mediaManager.on('localAudioStarted', (data) => {
+      console.log('[VideoCallClient] Local audio started');
+      this.emit('localAudioStarted', data);
+    });
+
+    this.mediaManager.on('localAudioStopped', () => {
+      console.log('[VideoCallClient] Local audio stopped');
+      this.emit('localAudioStopped');
+    });
+
+    this.mediaManager.on('localQualityAdapted', (data) => {
+      console.log(`[VideoCallClient] Local video quality adapted: ${data.reason}`);
+      this.emit('localQualityAdapted', data);
+    });
+
+    this.mediaManager.on('localScreenShareStarted', (data) => {
+      console.log('[VideoCallClient] Local screen share started');
+      this.emit('localScreenShareStarted', data);
+    });
+
+    this.mediaManager.on('localScreenShareStopped', () => {
+      console.log('[VideoCallClient] Local screen share stopped');
+      this.emit('localScreenShareStopped');
+    });
+
+    this.mediaManager.on('devicesChanged', async (devices) => {
+      console.log('[VideoCallClient] Media devices changed');
+      this.emit('devicesChanged', devices);
+
+      await this.eventQueue.add(async () => {
+        try {
+          await this.mediaManager.fallBackFromMissingInputs(devices);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          console.error('[VideoCallClient] Failed to fall back to default device:', errorMessage);
+          this.emit('error', error instanceof Error ? error : new Error(errorMessage));
+        }
+      });
+    });
+
+    this.statsManager.on('statsUpdated', (stats) => {
+      this.emit('statsUpdated', stats);
+
+      const { userId } = this.connectionManager.currentRoom;
+      if (userId) {
+        this.networkQualityManager.update(stats, userId);
+      }
+
+      this.eventQueue.add(async () => {
+        try {
+          await this.mediaManager.adaptVideoSender(stats);
+        } catch (error) {
+          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+          console.error('[VideoCallClient] Failed to adapt video sender:', errorMessage);
+        }
+      });
+    });
+
+    this.networkQualityManager.on('networkQualityChanged', (data) => {
+      console.log(
+        `[VideoCallClient] Network quality of ${data.userId}: up ${data.uplink ?? '-'}, down ${data.downlink ?? '-'}`
+      );
+      this.emit('networkQualityChanged', data);
+    });
+
+    // Moderation
+    // The server already paused our producer, only mirror it locally
+    this.connectionManager.on('youWereMuted', (data) => {
+      console.log(`[VideoCallClient] ${data.kind} muted by ${data.by}`);
+      if (data.kind === 'audio') {
+        this.mediaManager.muteAudio();
+      } else {
+        this.mediaManager.muteVideo();
+      }
+      this.emit('youWereMuted', data);
+    });
+
+    this.connectionManager.on('removedFromRoom', async (data) => {
+      console.log(`[VideoCallClient] Removed from call by ${data.by}`);
+      try {
+        await this.leaveAfterRemoval();
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+        console.error('[VideoCallClient] Failed to clean up after removal:', errorMessage);
+        this.emit('error', error instanceof Error ? error : new Error(errorMessage));
+      }
+      this.emit('youWereRemoved', data);
+    });
+
+    this.connectionManager.on('lobbyStatusChanged', (data) => {
+      console.log(`[VideoCallClient] Lobby status: ${data.status}`);
+      this.emit('lobbyStatusChanged', data);
+    });
+
+    this.connectionManager.on('lobbyRequest', (data) => {
+      console.log(`[VideoCallClient] ${data.userId} is waiting in the lobby`);
+      this.lobbyGuests.add(data.userId);
+      this.emit('lobbyRequest', data);
+    });
+
+    this.connectionManager.on('lobbyRequestClosed', (data) => {
+      if (this.lobbyGuests.delete(data.userId)) {
+        this.emit('lobbyRequestClosed', data);
+      }
+    });
+
+    this.connectionManager.on('roomLocked', (data) => {
+      console.log(`[VideoCallClient] Room ${data.locked ? 'locked' : 'unlocked'} by ${data.by}`);
+      this.emit('roomLocked', data);
+    });
+
+    this.connectionManager.on('lobbyChanged', (data) => {
+      console.log(`[VideoCallClient] Lobby turned ${data.enabled ? 'on' : 'off'} by ${data.by}`);
+      this.emit('lobbyChanged', data);
+    });
+
+    this.connectionManager.on('chatMessage', (message) => {
+      this.chatManager.receive([message]);
+    });
+
+    this.chatManager.on('chatMessageReceived', (message) => {
+      console.log(`[VideoCallClient] Chat message from ${message.from}`);
+      this.emit('chatMessageReceived', message);
+    });
+
+    this.dataManager.on('dataReceived', (data) => {
+      this.emit('dataReceived', data);
+    });
+
+    // Active speaker, from the server or computed locally as a fallback
+    this.connectionManager.on('audioLevels', () => {
+      this.activeSpeakerManager.handleServerLevels();
+    });
+
+    this.connectionManager.on('activeSpeaker', (data) => {
+      this.activeSpeakerManager.handleServerActiveSpeaker(data.userId);
+    });
+
+    this.activeSpeakerManager.on('activeSpeakerChanged', (data) => {
+      console.log(`[VideoCallClient] Active speaker: ${data.userId}`);
+      this.emit('activeSpeakerChanged', data);
+    });
+
+    // Sharing stopped from the browser UI rather than through stopScreenShare()
+    this.mediaManager.on('screenShareEnded', async () => {
+      await this.stopScreenShare();
+    });
+
     this.mediaManager.on('remoteVideoStarted', (data) => {
-      console.log(`[VideoCallClient] Remote video started from ${data.userId}`);
+      console.log(`[VideoCallClient] Remote ${data.source} video started from ${data.userId}`);
       this.emit('remoteVideoStarted', data);
     });
 
@@ -172,20 +757,87 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
       this.emit('remoteVideoStopped', data);
     });
 
+    this.mediaManager.on('remoteAudioStarted', (data) => {
+      console.log(`[VideoCallClient] Remote audio started from ${data.userId}`);
+      this.emit('remoteAudioStarted', data);
+    });
+
+    this.mediaManager.on('remoteAudioStopped', (data) => {
+      console.log(`[VideoCallClient] Remote audio stopped from ${data.userId}`);
+      this.emit('remoteAudioStopped', data);
+    });
+
+    this.mediaManager.on('layersChanged', (data) => {
+      console.log(`[VideoCallClient] Layers changed for ${data.producerId} from ${data.userId}`);
+      this.emit('layersChanged', data);
+    });
+
+    this.mediaManager.on('remoteMuteChanged', (data) => {
+      console.log(
+        `[VideoCallClient] Remote ${data.kind} from ${data.userId} ${data.muted ? 'muted' : 'unmuted'}`
+      );
+      this.emit('remoteMuteChanged', data);
+    });
+
+    // Room membership
+    this.connectionManager.on('peerJoined', (data) => {
+      console.log(`[VideoCallClient] Participant joined: ${data.userId}`);
+      this.emit('participantJoined', { userId: data.userId });
+    });
+
+    this.connectionManager.on('peerLeft', (data) => {
+      console.log(`[VideoCallClient] Participant left: ${data.userId}`);
+      this.activeSpeakerManager.removeParticipant(data.userId);
+      this.emit('participantLeft', { userId: data.userId });
+    });
+
     // Handle new producers
     this.connectionManager.on('newProducer', async (data) => {
       console.log(`[VideoCallClient] New producer from user ${data.userId}`);
-      this.emit('participantJoined', { userId: data.userId });
 
       await this.eventQueue.add(async () => {
-        await this.handleNewProducer(data.producerId, data.userId);
+        await this.handleNewProducer(data.producerId, data.userId, data.source);
+      });
+    });
+
+    // Handle data channels of other participants
+    this.connectionManager.on('newDataProducer', async (data) => {
+      await this.eventQueue.add(async () => {
+        await this.handleNewDataProducer(data.dataProducerId, data.userId);
+      });
+    });
+
+    this.connectionManager.on('dataProducerClosed', async (data) => {
+      await this.eventQueue.add(async () => {
+        this.dataManager.removeConsumer(data.dataProducerId);
+      });
+    });
+
+    // Handle producer mute changes once any pending consumer for it exists
+    this.connectionManager.on('producerPaused', async (data) => {
+      await this.eventQueue.add(async () => {
+        this.mediaManager.setRemotePaused(data.producerId, true);
+      });
+    });
+
+    this.connectionManager.on('producerResumed', async (data) => {
+      await this.eventQueue.add(async () => {
+        this.mediaManager.setRemotePaused(data.producerId, false);
+      });
+    });
+
+    // Layers received for a consumer, on request or when the server switches them
+    this.connectionManager.on('consumerLayersChanged', (data) => {
+      const { consumerId, producerId, spatialLayer, temporalLayer } = data;
+      this.mediaManager.updateConsumerLayers(consumerId, producerId, {
+        spatialLayer,
+        temporalLayer,
       });
     });
 
     // Handle producer closed
     this.connectionManager.on('producerClosed', async (data) => {
       console.log(`[VideoCallClient] Producer closed: ${data.producerId} from ${data.userId}`);
-      this.emit('participantLeft', { userId: data.userId });
 
       await this.eventQueue.add(async () => {
         this.mediaManager.removeConsumer(data.producerId, data.userId);
@@ -193,11 +845,119 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
     });
   }
 
+  /**
+   * Restore media after the signaling connection was re-established.
+   * Restarts ICE if the server kept our transports, otherwise recreates
+   * transports, re-produces local tracks and re-consumes remote producers.
+   */
+  private async recoverMedia(peers: PeerInfo[]): Promise<void> {
+    if (!this.deviceManager.isReady) {
+      return;
+    }
+
+    const iceRestarted = await this.deviceManager.restartIce();
+    const localMedia: Array<MediaKind | 'screen' | 'data'> = [];
+
+    if (!iceRestarted) {
+      console.log('[VideoCallClient] Recreating transports after reconnection');
+      this.mediaManager.releaseTransportMedia();
+      this.dataManager.releaseTransportData();
+      this.deviceManager.closeTransports();
+
+      if (
+        this.mediaManager.videoWasActive ||
+        this.mediaManager.audioWasActive ||
+        this.mediaManager.screenShareWasActive ||
+        this.dataManager.channelsWereActive
+      ) {
+        const sendTransport = await this.deviceManager.createSendTransport();
+        if (await this.mediaManager.restoreVideoIfNeeded(sendTransport)) {
+          localMedia.push('video');
+          if (this.mediaManager.isVideoMuted) {
+            await this.setServerProducerPaused(this.mediaManager.videoProducerId, true);
+          }
+        }
+        if (await this.mediaManager.restoreAudioIfNeeded(sendTransport)) {
+          localMedia.push('audio');
+          if (this.mediaManager.isAudioMuted) {
+            await this.setServerProducerPaused(this.mediaManager.audioProducerId, true);
+          }
+        }
+        if (await this.mediaManager.restoreScreenShareIfNeeded(sendTransport)) {
+          localMedia.push('screen');
+        }
+        if (await this.dataManager.restoreChannelsIfNeeded(sendTransport)) {
+          localMedia.push('data');
+        }
+      }
+    }
+
+    // Reconcile remote media with the roster the server reported on rejoin
+    const remoteProducers: string[] = [];
+    const rosterIds = new Set<string>();
+    for (const peer of peers) {
+      for (const producer of peer.producers) {
+        rosterIds.add(producer.id);
+        if (!this.mediaManager.hasConsumer(producer.id)) {
+          await this.handleNewProducer(producer.id, peer.userId, producer.source);
+          if (this.mediaManager.hasConsumer(producer.id)) {
+            remoteProducers.push(producer.id);
+          }
+        }
+      }
+    }
+
+    // Data channels are reconciled the same way
+    const dataRosterIds = new Set<string>();
+    for (const peer of peers) {
+      for (const dataProducer of peer.dataProducers ?? []) {
+        dataRosterIds.add(dataProducer.id);
+        await this.handleNewDataProducer(dataProducer.id, peer.userId);
+      }
+    }
+
+    // Producers closed while we were offline
+    this.mediaManager.retainConsumers(rosterIds);
+    this.dataManager.retainConsumers(dataRosterIds);
+
+    console.log(
+      `[VideoCallClient] Media recovered (ICE restart: ${iceRestarted}, local: ${localMedia.join(', ') || 'none'}, remote: ${remoteProducers.length})`
+    );
+    this.emit('mediaRecovered', { iceRestarted, localMedia, remoteProducers });
+  }
+
+  /**
+   * Queue consumption of producers that existed before we joined.
+   */
+  private consumePendingProducers(): void {
+    const producers = this.pendingProducers.splice(0);
+    for (const { producerId, userId, source } of producers) {
+      this.eventQueue.add(async () => {
+        await this.handleNewProducer(producerId, userId, source);
+      });
+    }
+
+    const dataProducers = this.pendingDataProducers.splice(0);
+    for (const { dataProducerId, userId } of dataProducers) {
+      this.eventQueue.add(async () => {
+        await this.handleNewDataProducer(dataProducerId, userId);
+      });
+    }
+  }
+
   /**
    * Handle new producer from remote participant.
    */
-  private async handleNewProducer(producerId: string, userId: string): Promise<void> {
+  private async handleNewProducer(
+    producerId: string,
+    userId: string,
+    source?: VideoSource
+  ): Promise<void> {
     try {
+      if (this.mediaManager.hasConsumer(producerId)) {
+        return;
+      }
+
       console.log(`[VideoCallClient] Handling new producer ${producerId} from ${userId}`);
 
       if (!this.deviceManager.isReady) {
@@ -211,13 +971,49 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
       const consumerData = await this.deviceManager.getConsumerData(producerId);
 
       // Create consumer through media manager
-      await this.mediaManager.createConsumer(recvTransport, consumerData, producerId, userId);
+      await this.mediaManager.createConsumer(
+        recvTransport,
+        consumerData,
+        producerId,
+        userId,
+        source
+      );
+
+      // Re-apply a layer preference made before the consumer was recreated
+      const layers = this.mediaManager.preferredLayersFor(producerId);
+      if (layers) {
+        await this.setPreferredLayers(producerId, layers);
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error(`[VideoCallClient] Failed to handle new producer:`, errorMessage);
     }
   }
 
+  /**
+   * Consume a data channel of a remote participant.
+   */
+  private async handleNewDataProducer(dataProducerId: string, userId: string): Promise<void> {
+    try {
+      if (this.dataManager.hasConsumer(dataProducerId)) {
+        return;
+      }
+
+      if (!this.deviceManager.isReady) {
+        // Consumed from the join roster once the device is ready
+        this.pendingDataProducers.push({ dataProducerId, userId });
+        return;
+      }
+
+      const recvTransport = await this.deviceManager.createRecvTransport();
+      const dataConsumerData = await this.deviceManager.getDataConsumerData(dataProducerId);
+      await this.dataManager.createConsumer(recvTransport, dataConsumerData, userId);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[VideoCallClient] Failed to handle new data producer:', errorMessage);
+    }
+  }
+
   /**
    * Check if the client is ready to start media operations.
    */
@@ -230,16 +1026,21 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
    * Get current connection status.
    */
   get connectionStatus(): ConnectionStatus {
-    const { roomId } = this.connectionManager.currentRoom;
+    const { roomId, userId } = this.connectionManager.currentRoom;
     return {
       connected: this.connectionManager.connected,
       deviceReady: this.deviceManager.isReady,
       inRoom: !!roomId,
       hasVideo: this.mediaManager.hasLocalVideo,
+      hasAudio: this.mediaManager.hasLocalAudio,
+      hasScreenShare: this.mediaManager.hasLocalScreenShare,
+      networkQuality: userId ? this.networkQualityManager.qualityOf(userId) : {},
       remoteParticipants: this.mediaManager.remoteParticipantCount,
       queueSize: this.eventQueue.size,
       processing: this.eventQueue.isProcessing,
       reconnecting: this.connectionManager.reconnecting,
+      rtt: this.connectionManager.rtt,
+      serverUrl: this.connectionManager.serverUrl,
     };
   }
 
@@ -249,4 +1050,53 @@ export class VideoCallClient extends TypedEventEmitter<VideoCallEvents> {
   get remoteVideoTracks() {
     return this.mediaManager.remoteVideoTracks;
   }
+
+  /**
+   * Get remote audio tracks for playback.
+   */
+  get remoteAudioTracks() {
+    return this.mediaManager.remoteAudioTracks;
+  }
+
+  /**
+   * Get the participant currently speaking the loudest, if known.
+   */
+  get activeSpeaker(): string | undefined {
+    return this.activeSpeakerManager.activeSpeaker;
+  }
+
+  /**
+   * Get the role the server granted us in the current call.
+   */
+  get role(): ParticipantRole | undefined {
+    return this.localRole;
+  }
+
+  /**
+   * Get the participants waiting in the lobby, oldest first. Only hosts are told about them.
+   */
+  get waitingParticipants(): string[] {
+    return Array.from(this.lobbyGuests);
+  }
+
+  /**
+   * Get the chat messages of the current call, oldest first.
+   */
+  get chatMessages(): ChatMessage[] {
+    return this.chatManager.messages;
+  }
+
+  /**
+   * Check if local video is muted.
+   */
+  get isVideoMuted(): boolean {
+    return this.mediaManager.isVideoMuted;
+  }
+
+  /**
+   * Check if local audio is muted.
+   */
+  get isAudioMuted(): boolean {
+    return this.mediaManager.isAudioMuted;
+  }
 }
\ No newline at end of file
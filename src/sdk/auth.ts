@@ -0,0 +1,20 @@
+import { AuthTokenClaims } from '../types/signaling';
+
+/**
+ * Read the claims of a join token without verifying it; only the server can verify.
+ */
+export function readTokenClaims(token: string): AuthTokenClaims {
+  const payload = token.split('.')[1];
+  try {
+    const base64 = payload.replace(/-/g, '+').replace(/_/g, '/');
+    const bytes = Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+    const claims = JSON.parse(new TextDecoder().decode(bytes));
+    if (typeof claims.sub !== 'string' || typeof claims.room !== 'string') {
+      throw new Error('missing sub or room claim');
+    }
+    return claims;
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    throw new Error(`Invalid token: ${errorMessage}`);
+  }
+}
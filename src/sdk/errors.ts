@@ -0,0 +1,61 @@
+import { AuthErrorCode } from '../types/signaling';
+
+/**
+ * Error raised when the signaling server answers a request with an error message.
+ * Carries the server-provided error code so callers can react to specific failures.
+ */
+export class SignalingRequestError extends Error {
+  readonly code?: string;
+  readonly requestType: string;
+
+  constructor(message: string, requestType: string, code?: string) {
+    super(message);
+    this.name = 'SignalingRequestError';
+    this.requestType = requestType;
+    this.code = code;
+  }
+}
+
+/**
+ * Error raised when a signaling request receives no response in time.
+ */
+export class SignalingTimeoutError extends SignalingRequestError {
+  readonly timeoutMs: number;
+
+  constructor(requestType: string, timeoutMs: number) {
+    super(`Request '${requestType}' timed out after ${timeoutMs}ms`, requestType, 'TIMEOUT');
+    this.name = 'SignalingTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Error raised when a message cannot reach the server: the connection is down
+ * and the outbound buffer cannot hold the message until it is restored.
+ */
+export class SignalingUnavailableError extends SignalingRequestError {
+  constructor(requestType: string, reason: string) {
+    super(`Cannot send '${requestType}': ${reason}`, requestType, 'SIGNALING_UNAVAILABLE');
+    this.name = 'SignalingUnavailableError';
+  }
+}
+
+/**
+ * Error raised when the server rejects the join token.
+ */
+export class AuthenticationError extends Error {
+  readonly code: AuthErrorCode;
+
+  constructor(message: string, code: AuthErrorCode) {
+    super(message);
+    this.name = 'AuthenticationError';
+    this.code = code;
+  }
+}
+
+/**
+ * Check if a server error code reports a rejected join token.
+ */
+export function isAuthErrorCode(code?: string): code is AuthErrorCode {
+  return code === 'AUTH_EXPIRED' || code === 'AUTH_INVALID';
+}
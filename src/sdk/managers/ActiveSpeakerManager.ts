@@ -0,0 +1,197 @@
+import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
+import { ActiveSpeakerEvents } from '../../types/events';
+import { DEFAULT_CLIENT_OPTIONS } from '../../types/options';
+import { ConnectionManager } from './ConnectionManager';
+import { MediaManager } from './MediaManager';
+
+// Levels below this are treated as silence
+const SPEAKING_THRESHOLD = 0.05;
+
+// Consecutive samples a remote participant must be the loudest before the fallback switches
+const FALLBACK_SAMPLES = 2;
+
+/**
+ * Read the level of the local microphone (0-1) from a producer stats report.
+ */
+export function localAudioLevel(report: RTCStatsReport): number | undefined {
+  let level: number | undefined;
+  report.forEach(entry => {
+    if (entry.type === 'media-source' && entry.kind === 'audio') {
+      level = entry.audioLevel;
+    }
+  });
+  return typeof level === 'number' ? level : undefined;
+}
+
+/**
+ * Read the current level (0-1) of a remote audio track from its RTP receiver.
+ */
+export function receiverAudioLevel(receiver?: RTCRtpReceiver): number | undefined {
+  const levels = (receiver?.getSynchronizationSources?.() ?? [])
+    .map(source => source.audioLevel)
+    .filter((level): level is number => typeof level === 'number');
+  return levels.length > 0 ? Math.max(...levels) : undefined;
+}
+
+/**
+ * Tracks the active speaker of the room.
+ * Reports the local microphone level to the server, which observes the levels of the whole
+ * room and announces the active speaker. Until the server announces anything, the active
+ * speaker is computed locally from the levels of remote audio tracks.
+ */
+export class ActiveSpeakerManager extends TypedEventEmitter<ActiveSpeakerEvents> {
+  private connectionManager: ConnectionManager;
+  private mediaManager: MediaManager;
+  private interval: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private sampling = false;
+  private speaker?: string;
+  private serverObserving = false;
+  private candidate?: { userId: string; samples: number };
+
+  constructor(
+    connectionManager: ConnectionManager,
+    mediaManager: MediaManager,
+    interval = DEFAULT_CLIENT_OPTIONS.audioLevelInterval
+  ) {
+    super();
+    this.connectionManager = connectionManager;
+    this.mediaManager = mediaManager;
+    this.interval = interval;
+  }
+
+  /**
+   * Start reporting and sampling audio levels. Does nothing when disabled.
+   */
+  start(): void {
+    if (this.timer || this.interval === 0) {
+      return;
+    }
+    this.timer = setInterval(() => this.sample(), this.interval);
+  }
+
+  /**
+   * Stop sampling and forget the active speaker.
+   */
+  reset(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.speaker = undefined;
+    this.candidate = undefined;
+    this.serverObserving = false;
+  }
+
+  /**
+   * The server broadcasts audio levels, so the local fallback is no longer needed.
+   */
+  handleServerLevels(): void {
+    this.serverObserving = true;
+  }
+
+  /**
+   * Apply the active speaker announced by the server.
+   */
+  handleServerActiveSpeaker(userId: string): void {
+    this.serverObserving = true;
+    this.setSpeaker(userId);
+  }
+
+  /**
+   * Forget a participant that left the room.
+   */
+  removeParticipant(userId: string): void {
+    if (this.speaker === userId) {
+      this.speaker = undefined;
+    }
+    if (this.candidate?.userId === userId) {
+      this.candidate = undefined;
+    }
+  }
+
+  /**
+   * Get the current active speaker, if any.
+   */
+  get activeSpeaker(): string | undefined {
+    return this.speaker;
+  }
+
+  /**
+   * Report the local level and run the fallback, skipping the tick if the previous one is
+   * still running.
+   */
+  private async sample(): Promise<void> {
+    if (this.sampling) {
+      return;
+    }
+
+    this.sampling = true;
+    try {
+      if (!this.serverObserving) {
+        this.detectFromRemoteTracks();
+      }
+      await this.reportLocalLevel();
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[ActiveSpeakerManager] Failed to sample audio levels:', errorMessage);
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  /**
+   * Send the level of the local microphone unless it is muted or the connection is down.
+   */
+  private async reportLocalLevel(): Promise<void> {
+    const audio = this.mediaManager.localProducers.find(({ kind }) => kind === 'audio');
+    if (!audio || this.mediaManager.isAudioMuted || !this.connectionManager.connected) {
+      return;
+    }
+
+    const level = localAudioLevel(await audio.producer.getStats());
+    if (level !== undefined) {
+      await this.connectionManager.sendMessage({ type: 'reportAudioLevel', level });
+    }
+  }
+
+  /**
+   * Pick the loudest remote participant once it stays the loudest for a few samples.
+   */
+  private detectFromRemoteTracks(): void {
+    let loudest: { userId: string; level: number } | undefined;
+    for (const { kind, paused, userId, consumer } of this.mediaManager.remoteConsumerList) {
+      if (kind !== 'audio' || paused) {
+        continue;
+      }
+      const level = receiverAudioLevel(consumer.rtpReceiver);
+      if (level !== undefined && level >= SPEAKING_THRESHOLD && level > (loudest?.level ?? 0)) {
+        loudest = { userId, level };
+      }
+    }
+
+    if (!loudest || loudest.userId === this.speaker) {
+      this.candidate = undefined;
+      return;
+    }
+
+    if (this.candidate?.userId === loudest.userId) {
+      this.candidate.samples++;
+    } else {
+      this.candidate = { userId: loudest.userId, samples: 1 };
+    }
+
+    if (this.candidate.samples >= FALLBACK_SAMPLES) {
+      this.candidate = undefined;
+      this.setSpeaker(loudest.userId);
+    }
+  }
+
+  private setSpeaker(userId: string): void {
+    if (this.speaker === userId) {
+      return;
+    }
+    this.speaker = userId;
+    this.emit('activeSpeakerChanged', { userId });
+  }
+}
@@ -0,0 +1,79 @@
+import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
+import { ChatEvents } from '../../types/events';
+import { ChatMessage } from '../../types/signaling';
+import { ConnectionManager } from './ConnectionManager';
+
+/**
+ * Sends chat messages over the signaling channel and keeps the chat of the current call.
+ * History replayed by the server on (re)join is merged without duplicates.
+ */
+export class ChatManager extends TypedEventEmitter<ChatEvents> {
+  private connectionManager: ConnectionManager;
+  private requestTimeout?: number;
+  private history: ChatMessage[] = [];
+  private seen = new Set<string>();
+
+  constructor(connectionManager: ConnectionManager, requestTimeout?: number) {
+    super();
+    this.connectionManager = connectionManager;
+    this.requestTimeout = requestTimeout;
+  }
+
+  /**
+   * Send a message to the room, or only to `to`, and return it as stored by the server.
+   */
+  async send(text: string, to?: string): Promise<ChatMessage> {
+    if (!this.connectionManager.currentRoom.roomId) {
+      throw new Error('Not in a call. Call joinCall() first.');
+    }
+
+    const response = await this.connectionManager.request(
+      { type: 'chatMessage', text, to },
+      this.requestTimeout
+    );
+    const message: ChatMessage = {
+      id: response.id,
+      from: response.from,
+      to: response.to,
+      text: response.text,
+      timestamp: response.timestamp,
+    };
+    this.remember(message);
+    return message;
+  }
+
+  /**
+   * Record messages from other participants, emitting the ones not seen before.
+   */
+  receive(messages: ChatMessage[]): void {
+    for (const message of messages) {
+      if (this.remember(message)) {
+        this.emit('chatMessageReceived', message);
+      }
+    }
+  }
+
+  /**
+   * Forget the chat of the call that ended.
+   */
+  reset(): void {
+    this.history = [];
+    this.seen.clear();
+  }
+
+  /**
+   * Get the chat messages of the current call, oldest first.
+   */
+  get messages(): ChatMessage[] {
+    return [...this.history];
+  }
+
+  private remember(message: ChatMessage): boolean {
+    if (this.seen.has(message.id)) {
+      return false;
+    }
+    this.seen.add(message.id);
+    this.history.push(message);
+    return true;
+  }
+}
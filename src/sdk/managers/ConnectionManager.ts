@@ -1,36 +1,103 @@
 import { SignalingChannel } from '../SignalingChannel';
+import { Heartbeat } from '../Heartbeat';
+import { OutboundBuffer } from '../OutboundBuffer';
+import { ServerPool } from '../ServerPool';
 import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
 import { ConnectionEvents } from '../../types/events';
+import {
+  DEFAULT_CLIENT_OPTIONS,
+  HeartbeatOptions,
+  OutboundBufferOptions,
+  ReconnectionOptions,
+  SignalingServers,
+  TokenProvider,
+} from '../../types/options';
+import {
+  ChatMessage,
+  ClientToServerMessage,
+  JoinedRoomMessage,
+  JoinRoomMessage,
+  LobbyWaitingMessage,
+  ParticipantRole,
+  PeerInfo,
+  RemovalReason,
+  ServerToClientMessage,
+  SignalingResponse,
+} from '../../types/signaling';
+import { SignalingTransportFactory } from '../../types/transport';
+import {
+  AuthenticationError,
+  isAuthErrorCode,
+  SignalingRequestError,
+  SignalingTimeoutError,
+  SignalingUnavailableError,
+} from '../errors';
 
 /**
  * Manages WebSocket connection, signaling, and reconnection logic.
  */
 export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
-  private signaling: SignalingChannel;
-  private serverUrl: string;
+  // Opened on construction, or on join when the server URLs come from a resolver
+  private signaling?: SignalingChannel;
+  private servers: ServerPool;
+  // Creates the transport of every signaling connection, WebSocket when unset
+  private createTransport?: SignalingTransportFactory;
+  private heartbeat: Heartbeat;
+  // Messages sent while reconnecting, sent on once the session is resumed
+  private outbound: OutboundBuffer;
 
   // Reconnection state
   private isReconnecting = false;
   private reconnectAttempts = 0;
-  private maxReconnectAttempts = 5;
-  private reconnectDelay = 1000;
+  private maxReconnectAttempts: number;
+  private reconnectDelay: number;
+  private connectTimeout: number;
   private reconnectTimer?: NodeJS.Timeout;
 
   // Call state for reconnection
   private roomId?: string;
   private userId?: string;
-
-  constructor(serverUrl: string) {
+  private token?: string;
+  private tokenProvider?: TokenProvider;
+  // Issued on join, lets a reconnection take back the same server-side peer
+  private sessionId?: string;
+  // Join waiting for the server to admit us, settled by joined or a rejection
+  private pendingJoin?: {
+    resolve: () => void;
+    reject: (error: Error) => void;
+    timer?: ReturnType<typeof setTimeout>;
+    inLobby: boolean;
+  };
+
+  constructor(
+    servers: SignalingServers,
+    reconnection: ReconnectionOptions = DEFAULT_CLIENT_OPTIONS.reconnection,
+    tokenProvider?: TokenProvider,
+    heartbeat: HeartbeatOptions = DEFAULT_CLIENT_OPTIONS.heartbeat,
+    outboundBuffer: OutboundBufferOptions = DEFAULT_CLIENT_OPTIONS.outboundBuffer,
+    createTransport?: SignalingTransportFactory
+  ) {
     super();
-    this.serverUrl = serverUrl;
-    this.signaling = new SignalingChannel(serverUrl);
-    this.setupSignalingEvents();
+    this.servers = new ServerPool(servers);
+    this.createTransport = createTransport;
+    this.tokenProvider = tokenProvider;
+    this.heartbeat = new Heartbeat(heartbeat, () => this.dropDeadConnection());
+    this.outbound = new OutboundBuffer(outboundBuffer);
+    this.maxReconnectAttempts = reconnection.maxAttempts;
+    this.reconnectDelay = reconnection.baseDelay;
+    this.connectTimeout = reconnection.connectTimeout;
+
+    const serverUrl = this.servers.next();
+    if (serverUrl) {
+      this.signaling = this.connectSignaling(serverUrl);
+    }
   }
 
   /**
-   * Join a video call room.
+   * Join a video call room, with a token when the server verifies them.
+   * Resolves once the server admitted us, which may mean waiting in the lobby.
    */
-  async joinRoom(roomId: string, userId: string): Promise<void> {
+  async joinRoom(roomId: string, userId: string, token?: string): Promise<void> {
     if (this.roomId && this.userId) {
       throw new Error('Already in a call. Call leaveCall() first.');
     }
@@ -39,11 +106,21 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
     this.userId = userId;
 
     try {
-      await this.signaling.sendWhenReady({ type: 'join', roomId, userId });
+      // Leaving closes the connection, so open a fresh one for the next call
+      let signaling = this.signaling;
+      if (!signaling || signaling.closed) {
+        // The late close of the connection we left must not look like losing this call
+        this.signaling = undefined;
+        signaling = this.connectSignaling(await this.servers.pick());
+        this.signaling = signaling;
+      }
+
+      this.token = token ?? (await this.tokenProvider?.({ roomId, userId }));
+      await signaling.sendWhenReady({ type: 'join', roomId, userId, token: this.token });
       console.log(`[ConnectionManager] Join request sent for room: ${roomId}`);
+      await this.waitForAdmission();
     } catch (error) {
-      this.roomId = undefined;
-      this.userId = undefined;
+      this.forgetCall();
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('Failed to join room:', errorMessage);
       throw error;
@@ -51,56 +128,157 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
   }
 
   /**
-   * Leave the current room.
+   * Leave the current room, notify the server and close the connection.
    */
   async leaveRoom(): Promise<void> {
     console.log('[ConnectionManager] Leaving room...');
-    
+
     this.stopReconnection();
+    this.settleJoin(new Error('Left the call before joining'));
+    this.outbound.clear('left the call');
+
+    if (this.roomId && this.signaling?.connected) {
+      try {
+        await this.signaling.sendWhenReady({ type: 'leave' });
+      } catch (error) {
+        console.error('[ConnectionManager] Failed to notify server about leaving:', error);
+      }
+    }
+
+    // Clear call state first so the close below does not trigger reconnection
+    this.heartbeat.stop();
     this.roomId = undefined;
     this.userId = undefined;
-    
+    this.token = undefined;
+    this.sessionId = undefined;
+    this.signaling?.close();
+
     console.log('[ConnectionManager] Left room successfully');
   }
 
+  /**
+   * End the call for everyone in the room. The server releases our peer too,
+   * so leaving afterwards only closes the connection.
+   */
+  async endCallForAll(): Promise<void> {
+    await this.request({ type: 'endCallForAll' });
+    this.forgetCall();
+  }
+
   /**
    * Send message to signaling server.
+   * While reconnecting, the message is held until the session is resumed.
+   */
+  async sendMessage(message: ClientToServerMessage): Promise<void> {
+    if (this.isReconnecting) {
+      return this.outbound.hold(message, () =>
+        this.availableChannel(message).sendWhenReady(message)
+      );
+    }
+    await this.availableChannel(message).sendWhenReady(message);
+  }
+
+  /**
+   * Send a request to signaling server and wait for its correlated response.
+   * While reconnecting, the request is held until the session is resumed.
    */
-  async sendMessage(message: any): Promise<void> {
-    await this.signaling.sendWhenReady(message);
+  async request<
+    TReq extends ClientToServerMessage,
+    TRes extends ServerToClientMessage = SignalingResponse<TReq>,
+  >(message: TReq, timeoutMs?: number): Promise<TRes> {
+    if (this.isReconnecting) {
+      return this.outbound.hold(message, () =>
+        this.availableChannel(message).request<TReq, TRes>(message, timeoutMs)
+      );
+    }
+    return this.availableChannel(message).request<TReq, TRes>(message, timeoutMs);
   }
 
   /**
    * Get connection status.
    */
   get connected(): boolean {
-    return this.signaling.connected;
+    return this.signaling?.connected ?? false;
   }
 
   get reconnecting(): boolean {
     return this.isReconnecting;
   }
 
+  /**
+   * Whether messages are sent now or held until the connection is restored.
+   */
+  get canSend(): boolean {
+    return !!this.signaling?.connected || this.isReconnecting;
+  }
+
   get currentRoom(): { roomId?: string; userId?: string } {
     return { roomId: this.roomId, userId: this.userId };
   }
 
+  /**
+   * Signaling server of the current or last connection attempt.
+   */
+  get serverUrl(): string | undefined {
+    return this.servers.current;
+  }
+
+  /**
+   * Round trip of the last signaling heartbeat in ms.
+   */
+  get rtt(): number | undefined {
+    return this.heartbeat.rtt;
+  }
+
+  /**
+   * Open a new signaling connection and wire up its events.
+   */
+  private connectSignaling(serverUrl: string): SignalingChannel {
+    const signaling = new SignalingChannel(serverUrl, this.createTransport);
+    this.setupSignalingEvents(signaling, serverUrl);
+    return signaling;
+  }
+
   /**
    * Set up signaling event handlers.
    */
-  private setupSignalingEvents(): void {
-    this.signaling.on('open', () => {
-      console.log('[ConnectionManager] Signaling connected');
+  private setupSignalingEvents(signaling: SignalingChannel, serverUrl: string): void {
+    signaling.on('open', () => {
+      // A reconnection attempt we gave up on may still open late
+      if (signaling !== this.signaling) {
+        return;
+      }
+      console.log(`[ConnectionManager] Signaling connected to ${serverUrl}`);
+      this.heartbeat.start(message => signaling.send(message));
+
+      const previousUrl = this.servers.lastGood;
+      this.servers.markHealthy(serverUrl);
+      if (previousUrl && previousUrl !== serverUrl) {
+        console.log(`[ConnectionManager] Moved from ${previousUrl} to ${serverUrl}`);
+        this.emit('serverChanged', { from: previousUrl, to: serverUrl });
+      }
 
       if (this.isReconnecting) {
-        this.handleReconnectionSuccess();
+        this.handleReconnectionSuccess(signaling);
       } else {
         this.emit('connected');
       }
     });
 
-    this.signaling.on('close', () => {
+    signaling.on('close', () => {
       console.log('[ConnectionManager] Signaling disconnected');
+      // A connection we left or gave up on may close after a newer one took over
+      if (signaling !== this.signaling) {
+        return;
+      }
+      this.heartbeat.stop();
+
+      // A call we were never admitted to has nothing to rejoin
+      if (this.pendingJoin) {
+        this.settleJoin(new Error('Connection closed before joining'));
+        this.emit('disconnected');
+        return;
+      }
 
       if (!this.isReconnecting) {
         this.emit('disconnected');
@@ -108,7 +286,25 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
       }
     });
 
-    this.signaling.on('error', error => {
+    signaling.on('error', error => {
+      if (signaling !== this.signaling) {
+        return;
+      }
+      // Server error messages arrive here too; a rejected join ends the join attempt
+      if (!(error instanceof Error) && isAuthErrorCode(error.code)) {
+        this.handleJoinRejection(new AuthenticationError(error.message, error.code));
+        return;
+      }
+      // Nothing else is in flight before we are admitted, so the error fails the join
+      if (this.pendingJoin) {
+        this.settleJoin(
+          error instanceof Error
+            ? error
+            : new SignalingRequestError(error.message, 'join', error.code)
+        );
+        return;
+      }
+
       console.error('[ConnectionManager] Signaling error:', error);
       this.emit('error', error);
 
@@ -118,31 +314,222 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
     });
 
     // Forward all signaling events
-    this.signaling.on('joined', data => {
+    signaling.on('joined', data => {
+      // Rejoin responses are reported through the reconnected event
+      if (this.isReconnecting) {
+        return;
+      }
       console.log(`[ConnectionManager] Joined room: ${data.roomId}`);
-      this.emit('joined', { roomId: data.roomId, userId: data.userId });
+      this.sessionId = data.sessionId;
+      if (this.pendingJoin?.inLobby) {
+        this.emit('lobbyStatusChanged', { status: 'admitted' });
+      }
+      this.emit('joined', {
+        roomId: data.roomId,
+        userId: data.userId,
+        role: data.role,
+        peers: data.peers ?? [],
+        activeSpeaker: data.activeSpeaker,
+        chatHistory: data.chatHistory ?? [],
+      });
+      this.settleJoin();
+    });
+
+    // Answers our join while a host decides, so stop timing the join out
+    signaling.on('lobbyWaiting', () => {
+      if (!this.pendingJoin) {
+        return;
+      }
+      console.log('[ConnectionManager] Waiting in the lobby for a host to admit us');
+      clearTimeout(this.pendingJoin.timer);
+      this.pendingJoin.inLobby = true;
+      this.emit('lobbyStatusChanged', { status: 'waiting' });
+    });
+
+    signaling.on('lobbyDenied', data => {
+      if (!this.pendingJoin) {
+        return;
+      }
+      console.log(`[ConnectionManager] Denied entry by ${data.by}`);
+      this.emit('lobbyStatusChanged', { status: 'denied' });
+      this.settleJoin(
+        new SignalingRequestError(`Entry denied by ${data.by}`, 'join', 'LOBBY_DENIED')
+      );
+    });
+
+    // Hosts follow who is waiting in the lobby
+    signaling.on('lobbyRequest', data => {
+      this.emit('lobbyRequest', { userId: data.userId });
+    });
+
+    signaling.on('lobbyLeft', data => {
+      this.emit('lobbyRequestClosed', { userId: data.userId, outcome: 'left' });
+    });
+
+    signaling.on('lobbyResolved', data => {
+      this.emit('lobbyRequestClosed', {
+        userId: data.userId,
+        outcome: data.admitted ? 'admitted' : 'denied',
+        by: data.by,
+      });
     });
 
-    this.signaling.on('routerRtpCapabilities', data => {
+    signaling.on('pong', data => {
+      this.heartbeat.handlePong(data.timestamp);
+    });
+
+    signaling.on('routerRtpCapabilities', data => {
       console.log('[ConnectionManager] Received router RTP capabilities');
       this.emit('routerRtpCapabilities', { rtpCapabilities: data.rtpCapabilities });
     });
 
-    this.signaling.on('newProducer', data => {
+    signaling.on('newProducer', data => {
       console.log(`[ConnectionManager] New producer from user ${data.userId}`);
-      this.emit('newProducer', { producerId: data.producerId, userId: data.userId });
+      this.emit('newProducer', {
+        producerId: data.producerId,
+        userId: data.userId,
+        source: data.source,
+      });
     });
 
-    this.signaling.on('producerClosed', data => {
+    signaling.on('producerClosed', data => {
+      // Our own closed producers are acknowledged through the closeProducer request
+      if (data.userId === this.userId) {
+        return;
+      }
       console.log(`[ConnectionManager] Producer closed: ${data.producerId} from ${data.userId}`);
       this.emit('producerClosed', { producerId: data.producerId, userId: data.userId });
     });
 
+    signaling.on('newDataProducer', data => {
+      console.log(`[ConnectionManager] New data producer '${data.label}' from user ${data.userId}`);
+      this.emit('newDataProducer', {
+        dataProducerId: data.dataProducerId,
+        userId: data.userId,
+        label: data.label,
+      });
+    });
+
+    signaling.on('dataProducerClosed', data => {
+      console.log(`[ConnectionManager] Data producer closed: ${data.dataProducerId}`);
+      this.emit('dataProducerClosed', {
+        dataProducerId: data.dataProducerId,
+        userId: data.userId,
+      });
+    });
+
+    // Our own mute changes are acknowledged through the pause/resume requests
+    signaling.on('producerPaused', data => {
+      if (data.userId === this.userId) {
+        return;
+      }
+      console.log(`[ConnectionManager] Producer paused: ${data.producerId} from ${data.userId}`);
+      this.emit('producerPaused', { producerId: data.producerId, userId: data.userId });
+    });
+
+    signaling.on('producerResumed', data => {
+      if (data.userId === this.userId) {
+        return;
+      }
+      console.log(`[ConnectionManager] Producer resumed: ${data.producerId} from ${data.userId}`);
+      this.emit('producerResumed', { producerId: data.producerId, userId: data.userId });
+    });
+
+    signaling.on('consumerLayersChanged', data => {
+      this.emit('consumerLayersChanged', {
+        consumerId: data.consumerId,
+        producerId: data.producerId,
+        spatialLayer: data.spatialLayer,
+        temporalLayer: data.temporalLayer,
+      });
+    });
+
+    signaling.on('peerJoined', data => {
+      console.log(`[ConnectionManager] Peer joined: ${data.userId}`);
+      this.emit('peerJoined', { userId: data.userId });
+    });
+
+    signaling.on('peerLeft', data => {
+      console.log(`[ConnectionManager] Peer left: ${data.userId}`);
+      this.emit('peerLeft', { userId: data.userId });
+    });
+
+    // Our own chat messages are returned by the chatMessage request
+    signaling.on('chatMessage', data => {
+      if (data.from === this.userId) {
+        return;
+      }
+      this.emit('chatMessage', {
+        id: data.id,
+        from: data.from,
+        to: data.to,
+        text: data.text,
+        timestamp: data.timestamp,
+      });
+    });
+
+    // Moderators get their own requests answered; only react when we are the target
+    signaling.on('participantMuted', data => {
+      if (data.userId !== this.userId || data.requestId) {
+        return;
+      }
+      console.log(`[ConnectionManager] ${data.kind} muted by ${data.by}`);
+      this.emit('youWereMuted', { kind: data.kind, by: data.by });
+    });
+
+    signaling.on('roomLocked', data => {
+      if (data.by === this.userId) {
+        return;
+      }
+      this.emit('roomLocked', { locked: data.locked, by: data.by });
+    });
+
+    signaling.on('lobbyChanged', data => {
+      if (data.by === this.userId) {
+        return;
+      }
+      this.emit('lobbyChanged', { enabled: data.enabled, by: data.by });
+    });
+
+    signaling.on('removedFromRoom', data => {
+      this.handleRemoval(data.reason, data.by);
+    });
+
+    signaling.on('audioLevels', data => {
+      this.emit('audioLevels', { levels: data.levels });
+    });
+
+    signaling.on('activeSpeaker', data => {
+      this.emit('activeSpeaker', { userId: data.userId });
+    });
+
     // Forward transport and producer events
-    this.signaling.on('webRtcTransportCreated', data => this.emit('webRtcTransportCreated', data));
-    this.signaling.on('transportConnected', data => this.emit('transportConnected', data));
-    this.signaling.on('producerCreated', data => this.emit('producerCreated', data));
-    this.signaling.on('consumerCreated', data => this.emit('consumerCreated', data));
+    signaling.on('webRtcTransportCreated', data => this.emit('webRtcTransportCreated', data));
+    signaling.on('transportConnected', data => this.emit('transportConnected', data));
+    signaling.on('producerCreated', data => this.emit('producerCreated', data));
+    signaling.on('consumerCreated', data => this.emit('consumerCreated', data));
+  }
+
+  /**
+   * Fail fast on a connection that is gone for good instead of waiting for it to open.
+   */
+  private availableChannel(message: ClientToServerMessage): SignalingChannel {
+    if (this.roomId && (!this.signaling || this.signaling.closed)) {
+      throw new SignalingUnavailableError(message.type, 'connection is closed');
+    }
+    if (!this.signaling) {
+      throw new SignalingUnavailableError(message.type, 'not connected, join a call first');
+    }
+    return this.signaling;
+  }
+
+  /**
+   * Tear down a connection that stopped answering heartbeats. The close that follows
+   * starts reconnection just like a connection lost at the socket level.
+   */
+  private dropDeadConnection(): void {
+    console.warn('[ConnectionManager] Heartbeat lost, dropping the connection');
+    this.signaling?.terminate();
   }
 
   /**
@@ -167,42 +554,70 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('[ConnectionManager] Max reconnection attempts reached');
       this.isReconnecting = false;
+      this.outbound.clear('reconnection failed');
       this.emit('reconnectionFailed', new Error('Max reconnection attempts reached'));
       return;
     }
 
     this.reconnectAttempts++;
+    // Another server to fail over to is tried without growing the delay
     const delay =
-      this.reconnectDelay * Math.pow(2, this.reconnectAttempts - 1) + Math.random() * 1000;
+      this.reconnectDelay * Math.pow(2, this.servers.backoffLevel) +
+      Math.random() * this.reconnectDelay;
 
     console.log(
       `[ConnectionManager] Reconnection attempt ${this.reconnectAttempts}/${this.maxReconnectAttempts} in ${Math.round(delay)}ms`
     );
 
     this.reconnectTimer = setTimeout(async () => {
+      let serverUrl: string | undefined;
+      let signaling: SignalingChannel | undefined;
       try {
+        // The token may have expired while we were disconnected
+        await this.refreshToken();
+        if (!this.isReconnecting) {
+          return;
+        }
+
+        serverUrl = await this.servers.pick();
+        if (!this.isReconnecting) {
+          return;
+        }
+
         // Create new signaling connection
-        this.signaling = new SignalingChannel(this.serverUrl);
-        this.setupSignalingEvents();
+        console.log(`[ConnectionManager] Connecting to ${serverUrl}`);
+        const attempt = this.connectSignaling(serverUrl);
+        signaling = attempt;
+        this.signaling = attempt;
 
         // Wait for connection
         await new Promise<void>((resolve, reject) => {
           const timeout = setTimeout(() => {
             reject(new Error('Reconnection timeout'));
-          }, 10000);
+          }, this.connectTimeout);
 
-          this.signaling.on('open', () => {
+          attempt.on('open', () => {
             clearTimeout(timeout);
             resolve();
           });
 
-          this.signaling.on('error', error => {
+          attempt.on('error', error => {
             clearTimeout(timeout);
             reject(error);
           });
         });
       } catch (error) {
         console.error('[ConnectionManager] Reconnection attempt failed:', error);
+        // Give up on this connection so a late open cannot rejoin behind the next attempt
+        if (signaling) {
+          if (signaling === this.signaling) {
+            this.signaling = undefined;
+          }
+          signaling.close();
+        }
+        if (serverUrl) {
+          this.servers.markFailed(serverUrl);
+        }
         this.attemptReconnection();
       }
     }, delay);
@@ -211,17 +626,42 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
   /**
    * Handle successful reconnection.
    */
-  private async handleReconnectionSuccess(): Promise<void> {
+  private async handleReconnectionSuccess(signaling: SignalingChannel): Promise<void> {
     console.log('[ConnectionManager] Reconnection successful');
 
     try {
-      // Rejoin the room
+      // Rejoin the room and collect the current roster for media recovery
+      let role: ParticipantRole | undefined;
+      let peers: PeerInfo[] = [];
+      let chatHistory: ChatMessage[] = [];
+      let resumed = false;
       if (this.roomId && this.userId) {
-        await this.signaling.sendWhenReady({
-          type: 'join',
-          roomId: this.roomId,
-          userId: this.userId,
-        });
+        // Take back the peer the server held for us, or join as a new one once it is gone
+        let joined: JoinedRoomMessage | LobbyWaitingMessage | undefined;
+        if (this.sessionId) {
+          joined = await this.resumeSession(signaling, this.sessionId);
+          resumed = !!joined;
+        }
+        if (!joined) {
+          joined = await signaling.request<JoinRoomMessage>({
+            type: 'join',
+            roomId: this.roomId,
+            userId: this.userId,
+            token: this.token,
+          });
+        }
+        // Not a member anymore, so the call cannot simply be resumed
+        if (joined.type === 'lobbyWaiting') {
+          this.abandonReconnection(
+            new SignalingRequestError('Admission required to rejoin', 'join', 'LOBBY_WAITING')
+          );
+          signaling.close();
+          return;
+        }
+        this.sessionId = joined.sessionId;
+        role = joined.role;
+        peers = joined.peers ?? [];
+        chatHistory = joined.chatHistory ?? [];
       }
 
       // Reset reconnection state
@@ -229,13 +669,133 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
       this.reconnectAttempts = 0;
       this.stopReconnection();
 
-      this.emit('reconnected');
+      // Held messages refer to the old peer, which only a resumed session still is
+      if (resumed) {
+        this.outbound.flush();
+      } else {
+        this.outbound.clear('session was not resumed');
+      }
+
+      this.emit('reconnected', { role, peers, chatHistory, resumed });
     } catch (error) {
       console.error('[ConnectionManager] Failed to restore state after reconnection:', error);
+
+      // Without a provider the rejected token cannot be replaced, so retrying is pointless
+      if (
+        error instanceof SignalingRequestError &&
+        isAuthErrorCode(error.code) &&
+        !this.tokenProvider
+      ) {
+        this.abandonReconnection(new AuthenticationError(error.message, error.code));
+        return;
+      }
       this.attemptReconnection();
     }
   }
 
+  /**
+   * Take back the peer the server held for us since the connection dropped.
+   * Resolves with undefined once the server released it, so the caller joins again.
+   */
+  private async resumeSession(
+    signaling: SignalingChannel,
+    sessionId: string
+  ): Promise<JoinedRoomMessage | undefined> {
+    try {
+      const resumed = await signaling.request({ type: 'resume', sessionId, token: this.token });
+      console.log('[ConnectionManager] Session resumed');
+      return resumed;
+    } catch (error) {
+      if (error instanceof SignalingRequestError && error.code === 'SESSION_NOT_FOUND') {
+        console.log('[ConnectionManager] Session expired on the server, joining again');
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Ask the token provider for a fresh token for the current call.
+   */
+  private async refreshToken(): Promise<void> {
+    if (this.tokenProvider && this.roomId && this.userId) {
+      this.token = await this.tokenProvider({ roomId: this.roomId, userId: this.userId });
+    }
+  }
+
+  /**
+   * Wait for the server to admit the join just sent. Only the answer is timed,
+   * waiting in the lobby is not.
+   */
+  private waitForAdmission(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settleJoin(new SignalingTimeoutError('join', this.connectTimeout));
+      }, this.connectTimeout);
+      this.pendingJoin = { resolve, reject, timer, inLobby: false };
+    });
+  }
+
+  /**
+   * Resolve the pending join, or reject it with an error.
+   */
+  private settleJoin(error?: Error): void {
+    const pendingJoin = this.pendingJoin;
+    if (!pendingJoin) {
+      return;
+    }
+    this.pendingJoin = undefined;
+    clearTimeout(pendingJoin.timer);
+    if (error) {
+      pendingJoin.reject(error);
+    } else {
+      pendingJoin.resolve();
+    }
+  }
+
+  /**
+   * Fail the join the server rejected, or report the rejection if nothing awaits it.
+   */
+  private handleJoinRejection(error: Error): void {
+    console.error(`[ConnectionManager] Join rejected: ${error.message}`);
+    if (this.pendingJoin) {
+      this.settleJoin(error);
+      return;
+    }
+    this.forgetCall();
+    this.emit('error', error);
+  }
+
+  /**
+   * Give up reconnecting to a call the server will not let us rejoin.
+   */
+  private abandonReconnection(error: Error): void {
+    this.forgetCall();
+    this.emit('reconnectionFailed', error);
+  }
+
+  /**
+   * Forget the call and close the connection after the server removed us from the room.
+   */
+  private handleRemoval(reason: RemovalReason, by: string): void {
+    console.log(`[ConnectionManager] Removed from room by ${by} (${reason})`);
+    this.forgetCall();
+    this.signaling?.close();
+    this.emit('removedFromRoom', { reason, by });
+  }
+
+  /**
+   * Stop reconnecting and clear the call state so nothing rejoins it.
+   */
+  private forgetCall(): void {
+    this.stopReconnection();
+    this.outbound.clear('left the call');
+    this.roomId = undefined;
+    this.userId = undefined;
+    this.token = undefined;
+    this.sessionId = undefined;
+  }
+
   /**
    * Stop reconnection attempts.
    */
@@ -247,4 +807,4 @@ export class ConnectionManager extends TypedEventEmitter<ConnectionEvents> {
     this.isReconnecting = false;
     this.reconnectAttempts = 0;
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,195 @@
+import * as mediasoupClient from 'mediasoup-client';
+import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
+import { DataEvents } from '../../types/events';
+import { DataChannelOptions, DataPayload } from '../../types/media';
+import { DataConsumerCreatedMessage } from '../../types/signaling';
+
+/**
+ * Local data channel and the reliability it was opened with
+ */
+interface LocalDataChannel {
+  dataProducer: mediasoupClient.types.DataProducer;
+  options: DataChannelOptions;
+}
+
+/**
+ * Data channel of a remote participant we receive messages from
+ */
+interface RemoteDataConsumer {
+  userId: string;
+  label: string;
+  dataConsumer: mediasoupClient.types.DataConsumer;
+}
+
+/**
+ * Manages data producers and consumers for messaging between participants.
+ * Each label maps to one local data channel that every other participant consumes.
+ */
+export class DataManager extends TypedEventEmitter<DataEvents> {
+  private channels = new Map<string, LocalDataChannel>();
+  private remoteConsumers = new Map<string, RemoteDataConsumer>();
+  // Channels closed with their transport, reopened once transports are recreated
+  private releasedChannels = new Map<string, DataChannelOptions>();
+
+  /**
+   * Open a data channel for a label unless it is already open.
+   */
+  async openChannel(
+    sendTransport: mediasoupClient.types.Transport,
+    label: string,
+    options: DataChannelOptions = {}
+  ): Promise<void> {
+    if (this.channels.has(label)) {
+      return;
+    }
+
+    const dataProducer = await sendTransport.produceData({ label, ...options });
+    this.channels.set(label, { dataProducer, options });
+    this.releasedChannels.delete(label);
+    console.log(`[DataManager] Data channel '${label}' opened`);
+  }
+
+  /**
+   * Send a message on an open data channel, waiting for the channel to connect.
+   */
+  async send(label: string, payload: DataPayload): Promise<void> {
+    const channel = this.channels.get(label);
+    if (!channel) {
+      throw new Error(`Data channel '${label}' is not open`);
+    }
+
+    const { dataProducer } = channel;
+    if (dataProducer.readyState === 'connecting') {
+      await new Promise<void>((resolve, reject) => {
+        // Only one of them fires, so drop the other to keep them from piling up
+        const onOpen = () => {
+          dataProducer.off('error', onError);
+          resolve();
+        };
+        const onError = (error: Error) => {
+          dataProducer.off('open', onOpen);
+          reject(error);
+        };
+        dataProducer.once('open', onOpen);
+        dataProducer.once('error', onError);
+      });
+    }
+    if (dataProducer.readyState !== 'open') {
+      throw new Error(`Data channel '${label}' is ${dataProducer.readyState}`);
+    }
+
+    dataProducer.send(payload);
+  }
+
+  /**
+   * Consume a remote participant's data channel and forward its messages.
+   */
+  async createConsumer(
+    recvTransport: mediasoupClient.types.Transport,
+    data: DataConsumerCreatedMessage,
+    userId: string
+  ): Promise<void> {
+    const { dataProducerId, label } = data;
+    const dataConsumer = await recvTransport.consumeData({
+      id: data.dataConsumerId,
+      dataProducerId,
+      sctpStreamParameters: data.sctpStreamParameters,
+      label,
+      protocol: data.protocol,
+    });
+
+    dataConsumer.on('message', (message: DataPayload) => {
+      this.emit('dataReceived', { userId, label, data: message });
+    });
+
+    this.remoteConsumers.set(dataProducerId, { userId, label, dataConsumer });
+    console.log(`[DataManager] Consuming data channel '${label}' from ${userId}`);
+  }
+
+  /**
+   * Check if we already consume a remote data producer.
+   */
+  hasConsumer(dataProducerId: string): boolean {
+    return this.remoteConsumers.has(dataProducerId);
+  }
+
+  /**
+   * Stop consuming a closed remote data producer.
+   */
+  removeConsumer(dataProducerId: string): void {
+    const consumerInfo = this.remoteConsumers.get(dataProducerId);
+    if (consumerInfo) {
+      consumerInfo.dataConsumer.close();
+      this.remoteConsumers.delete(dataProducerId);
+      console.log(`[DataManager] Removed data consumer for ${dataProducerId}`);
+    }
+  }
+
+  /**
+   * Remove data consumers whose data producers are not in the given set.
+   */
+  retainConsumers(dataProducerIds: Set<string>): void {
+    for (const dataProducerId of this.remoteConsumers.keys()) {
+      if (!dataProducerIds.has(dataProducerId)) {
+        this.removeConsumer(dataProducerId);
+      }
+    }
+  }
+
+  /**
+   * Close data producers and consumers bound to transports that are being recreated,
+   * remembering local channels so they can be reopened.
+   */
+  releaseTransportData(): void {
+    for (const [label, { dataProducer, options }] of this.channels) {
+      dataProducer.close();
+      this.releasedChannels.set(label, options);
+    }
+    this.channels.clear();
+
+    for (const { dataConsumer } of this.remoteConsumers.values()) {
+      dataConsumer.close();
+    }
+    this.remoteConsumers.clear();
+  }
+
+  /**
+   * Reopen local channels released with their transport.
+   * Returns whether any channel was reopened.
+   */
+  async restoreChannelsIfNeeded(sendTransport: mediasoupClient.types.Transport): Promise<boolean> {
+    let restored = false;
+    for (const [label, options] of this.releasedChannels) {
+      try {
+        await this.openChannel(sendTransport, label, options);
+        restored = true;
+      } catch (error) {
+        console.error(`[DataManager] Failed to reopen data channel '${label}':`, error);
+      }
+    }
+    return restored;
+  }
+
+  /**
+   * Close every data producer and consumer.
+   */
+  cleanup(): void {
+    console.log('[DataManager] Cleaning up data channels...');
+    this.releaseTransportData();
+    this.releasedChannels.clear();
+  }
+
+  /**
+   * Check if a local data channel is open for a label.
+   */
+  hasChannel(label: string): boolean {
+    return this.channels.has(label);
+  }
+
+  /**
+   * Check if local channels were open before their transport was closed.
+   */
+  get channelsWereActive(): boolean {
+    return this.releasedChannels.size > 0;
+  }
+}
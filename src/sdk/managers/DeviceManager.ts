@@ -2,6 +2,9 @@ import * as mediasoupClient from 'mediasoup-client';
 import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
 import { ConnectionManager } from './ConnectionManager';
 import { DeviceEvents } from '../../types/events';
+import { ConsumerCreatedMessage, DataConsumerCreatedMessage } from '../../types/signaling';
+import { DEFAULT_CLIENT_OPTIONS } from '../../types/options';
+import { SignalingRequestError } from '../errors';
 
 /**
  * Manages mediasoup device initialization and WebRTC transport creation.
@@ -11,16 +14,28 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
   private sendTransport?: mediasoupClient.types.Transport;
   private recvTransport?: mediasoupClient.types.Transport;
   private connectionManager: ConnectionManager;
+  // Time to wait for the server to answer transport and consumer requests
+  private requestTimeout: number;
 
-  constructor(connectionManager: ConnectionManager) {
+  constructor(
+    connectionManager: ConnectionManager,
+    requestTimeout = DEFAULT_CLIENT_OPTIONS.requestTimeout
+  ) {
     super();
     this.connectionManager = connectionManager;
+    this.requestTimeout = requestTimeout;
   }
 
   /**
    * Initialize mediasoup device with server's RTP capabilities.
    */
   async initializeDevice(rtpCapabilities: any): Promise<void> {
+    // The server resends capabilities when we rejoin after reconnection
+    if (this.device?.loaded) {
+      console.log('[DeviceManager] Device already initialized');
+      return;
+    }
+
     try {
       this.device = new mediasoupClient.Device();
       await this.device.load({ routerRtpCapabilities: rtpCapabilities });
@@ -54,25 +69,10 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
     try {
       console.log('[DeviceManager] Creating send transport...');
 
-      const transportData = await new Promise<any>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('Transport creation timeout'));
-        }, 10000);
-
-        const handler = (data: any) => {
-          clearTimeout(timeout);
-          this.connectionManager.off('webRtcTransportCreated', handler);
-          resolve(data);
-        };
-
-        this.connectionManager.on('webRtcTransportCreated', handler);
-
-        this.connectionManager.sendMessage({
-          type: 'createWebRtcTransport',
-          consuming: false,
-          forceTcp: false,
-        });
-      });
+      const transportData = await this.connectionManager.request(
+        { type: 'createWebRtcTransport', consuming: false, forceTcp: false },
+        this.requestTimeout
+      );
 
       this.sendTransport = this.device.createSendTransport({
         id: transportData.transportId,
@@ -84,11 +84,10 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
 
       this.sendTransport.on('connect', async ({ dtlsParameters }, callback, errback) => {
         try {
-          await this.connectionManager.sendMessage({
-            type: 'connectTransport',
-            transportId: this.sendTransport!.id,
-            dtlsParameters,
-          });
+          await this.connectionManager.request(
+            { type: 'connectTransport', transportId: this.sendTransport!.id, dtlsParameters },
+            this.requestTimeout
+          );
           callback();
         } catch (error) {
           errback(error instanceof Error ? error : new Error('Unknown error'));
@@ -99,22 +98,16 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
         'produce',
         async ({ kind, rtpParameters, appData }, callback, errback) => {
           try {
-            const response = await new Promise<any>((resolve, reject) => {
-              const handler = (data: any) => {
-                this.connectionManager.off('producerCreated', handler);
-                resolve(data);
-              };
-
-              this.connectionManager.on('producerCreated', handler);
-
-              this.connectionManager.sendMessage({
+            const response = await this.connectionManager.request(
+              {
                 type: 'produce',
                 transportId: this.sendTransport!.id,
                 kind,
                 rtpParameters,
                 appData,
-              });
-            });
+              },
+              this.requestTimeout
+            );
 
             callback({ id: response.producerId });
           } catch (error) {
@@ -123,6 +116,29 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
         }
       );
 
+      this.sendTransport.on(
+        'producedata',
+        async ({ sctpStreamParameters, label, protocol, appData }, callback, errback) => {
+          try {
+            const response = await this.connectionManager.request(
+              {
+                type: 'produceData',
+                transportId: this.sendTransport!.id,
+                sctpStreamParameters,
+                label: label ?? '',
+                protocol,
+                appData,
+              },
+              this.requestTimeout
+            );
+
+            callback({ id: response.dataProducerId });
+          } catch (error) {
+            errback(error instanceof Error ? error : new Error('Unknown error'));
+          }
+        }
+      );
+
       console.log('[DeviceManager] Send transport created successfully');
       this.emit('transportCreated', { transport: this.sendTransport, type: 'send' });
       return this.sendTransport;
@@ -148,25 +164,10 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
     try {
       console.log('[DeviceManager] Creating receive transport...');
 
-      const transportData = await new Promise<any>((resolve, reject) => {
-        const timeout = setTimeout(() => {
-          reject(new Error('Transport creation timeout'));
-        }, 10000);
-
-        const handler = (data: any) => {
-          clearTimeout(timeout);
-          this.connectionManager.off('webRtcTransportCreated', handler);
-          resolve(data);
-        };
-
-        this.connectionManager.on('webRtcTransportCreated', handler);
-
-        this.connectionManager.sendMessage({
-          type: 'createWebRtcTransport',
-          consuming: true,
-          forceTcp: false,
-        });
-      });
+      const transportData = await this.connectionManager.request(
+        { type: 'createWebRtcTransport', consuming: true, forceTcp: false },
+        this.requestTimeout
+      );
 
       this.recvTransport = this.device.createRecvTransport({
         id: transportData.transportId,
@@ -178,11 +179,10 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
 
       this.recvTransport.on('connect', async ({ dtlsParameters }, callback, errback) => {
         try {
-          await this.connectionManager.sendMessage({
-            type: 'connectTransport',
-            transportId: this.recvTransport!.id,
-            dtlsParameters,
-          });
+          await this.connectionManager.request(
+            { type: 'connectTransport', transportId: this.recvTransport!.id, dtlsParameters },
+            this.requestTimeout
+          );
           callback();
         } catch (error) {
           errback(error instanceof Error ? error : new Error('Unknown error'));
@@ -202,40 +202,71 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
   /**
    * Get consumer data from signaling server.
    */
-  async getConsumerData(producerId: string): Promise<any> {
+  async getConsumerData(producerId: string): Promise<ConsumerCreatedMessage> {
     if (!this.device || !this.device.loaded) {
       throw new Error('Device not initialized');
     }
 
-    return new Promise<any>((resolve, reject) => {
-      const timeout = setTimeout(() => {
-        reject(new Error('Consumer creation timeout'));
-      }, 10000);
-
-      const handler = (data: any) => {
-        clearTimeout(timeout);
-        this.connectionManager.off('consumerCreated', handler);
-        resolve(data);
-      };
-
-      this.connectionManager.on('consumerCreated', handler);
-
-      this.connectionManager.sendMessage({
+    return this.connectionManager.request(
+      {
         type: 'consume',
         transportId: this.recvTransport!.id,
         producerId,
-        rtpCapabilities: this.device!.rtpCapabilities,
-      });
-    });
+        rtpCapabilities: this.device.rtpCapabilities,
+      },
+      this.requestTimeout
+    );
   }
 
   /**
-   * Cleanup all transports.
+   * Get data consumer data from signaling server.
    */
-  async cleanup(): Promise<void> {
-    console.log('[DeviceManager] Cleaning up transports...');
+  async getDataConsumerData(dataProducerId: string): Promise<DataConsumerCreatedMessage> {
+    if (!this.device || !this.device.loaded) {
+      throw new Error('Device not initialized');
+    }
+
+    return this.connectionManager.request(
+      { type: 'consumeData', transportId: this.recvTransport!.id, dataProducerId },
+      this.requestTimeout
+    );
+  }
 
-    // Close transports
+  /**
+   * Restart ICE on existing transports after the signaling connection was restored.
+   * Returns false if the server no longer knows a transport and it must be recreated.
+   */
+  async restartIce(): Promise<boolean> {
+    const transports = [this.sendTransport, this.recvTransport].filter(
+      (transport): transport is mediasoupClient.types.Transport => !!transport
+    );
+    if (transports.length === 0) {
+      return false;
+    }
+
+    try {
+      for (const transport of transports) {
+        const { iceParameters } = await this.connectionManager.request(
+          { type: 'restartIce', transportId: transport.id },
+          this.requestTimeout
+        );
+        await transport.restartIce({ iceParameters });
+      }
+      console.log('[DeviceManager] ICE restarted on existing transports');
+      return true;
+    } catch (error) {
+      if (error instanceof SignalingRequestError && error.code === 'TRANSPORT_NOT_FOUND') {
+        console.log('[DeviceManager] Server-side transports are gone, recreation required');
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Close send and receive transports while keeping the loaded device.
+   */
+  closeTransports(): void {
     if (this.sendTransport) {
       this.sendTransport.close();
       this.sendTransport = undefined;
@@ -245,7 +276,15 @@ export class DeviceManager extends TypedEventEmitter<DeviceEvents> {
       this.recvTransport.close();
       this.recvTransport = undefined;
     }
+  }
+
+  /**
+   * Cleanup all transports.
+   */
+  async cleanup(): Promise<void> {
+    console.log('[DeviceManager] Cleaning up transports...');
 
+    this.closeTransports();
     this.device = undefined;
   }
 
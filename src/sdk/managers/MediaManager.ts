@@ -1,40 +1,105 @@
 import * as mediasoupClient from 'mediasoup-client';
 import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
-import { RemoteConsumer } from '../../types/media';
+import {
+  CallStats,
+  ConsumerLayers,
+  DEFAULT_SCREEN_SHARE_CONSTRAINTS,
+  DEFAULT_SCREEN_SHARE_ENCODINGS,
+  LocalProducer,
+  MediaInputDevices,
+  MediaKind,
+  RemoteConsumer,
+  SenderAdaptation,
+} from '../../types/media';
+import {
+  AudioOptions,
+  DEFAULT_CLIENT_OPTIONS,
+  StartAudioOptions,
+  StartVideoOptions,
+  VideoOptions,
+} from '../../types/options';
+import { resolveAudioOptions, resolveVideoOptions } from '../options';
+import { AdaptiveSenderController } from '../AdaptiveSenderController';
 import { MediaEvents } from '../../types/events';
+import { ConsumerCreatedMessage, VideoSource } from '../../types/signaling';
 
 /**
- * Manages media capture, streaming, and remote video consumption.
+ * Manages media capture, streaming, and remote audio/video consumption.
  */
 export class MediaManager extends TypedEventEmitter<MediaEvents> {
   private localVideoProducer?: mediasoupClient.types.Producer;
   private savedMediaStream?: MediaStream;
   private wasVideoActive = false;
+  private videoMuted = false;
+  // Congestion control for the camera producer and the limits last applied to it
+  private videoAdaptation?: AdaptiveSenderController;
+  private appliedAdaptation?: SenderAdaptation;
+
+  private localAudioProducer?: mediasoupClient.types.Producer;
+  private savedAudioStream?: MediaStream;
+  private wasAudioActive = false;
+  private audioMuted = false;
+
+  private localScreenProducer?: mediasoupClient.types.Producer;
+  private savedScreenStream?: MediaStream;
+  private wasScreenShareActive = false;
+
+  // Selected capture devices, undefined for the browser default
+  private videoDeviceId?: string;
+  private audioDeviceId?: string;
+
+  // Configured defaults and the settings of the last started media (for reconnection)
+  private videoOptions: VideoOptions;
+  private audioOptions: AudioOptions;
+  private activeVideoOptions?: VideoOptions;
+  private activeAudioOptions?: AudioOptions;
 
   // Remote participants management
   private remoteConsumers = new Map<string, RemoteConsumer>();
+  // Preferred simulcast layers by producer id, kept while consumers are recreated
+  private preferredLayers = new Map<string, ConsumerLayers>();
 
-  constructor() {
+  constructor(
+    videoOptions: VideoOptions = DEFAULT_CLIENT_OPTIONS.video,
+    audioOptions: AudioOptions = DEFAULT_CLIENT_OPTIONS.audio
+  ) {
     super();
+    this.videoOptions = videoOptions;
+    this.audioOptions = audioOptions;
+
+    this.watchDevices();
   }
 
   /**
    * Start video capture and create producer.
+   * Overrides apply to this call only; explicit constraints force a fresh capture.
    */
-  async startVideo(sendTransport: mediasoupClient.types.Transport): Promise<void> {
+  async startVideo(
+    sendTransport: mediasoupClient.types.Transport,
+    overrides: StartVideoOptions = {}
+  ): Promise<void> {
     if (this.localVideoProducer) {
       console.log('[MediaManager] Video already active');
       return;
     }
 
+    // Cleanup stops watching, so a client rejoining a call starts again here
+    this.watchDevices();
+    const options = resolveVideoOptions(this.videoOptions, overrides);
+
     try {
       console.log('[MediaManager] Requesting camera access...');
 
       // Reuse saved stream if available (for reconnection)
       let stream = this.savedMediaStream;
-      if (!stream || stream.getTracks().every(track => track.readyState === 'ended')) {
+      if (
+        !stream ||
+        overrides.constraints ||
+        stream.getTracks().every(track => track.readyState === 'ended')
+      ) {
+        stream?.getTracks().forEach(track => track.stop());
         stream = await navigator.mediaDevices.getUserMedia({
-          video: { width: 640, height: 480 },
+          video: this.withDevice(options.constraints, this.videoDeviceId),
           audio: false,
         });
         this.savedMediaStream = stream;
@@ -48,13 +113,20 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
       console.log('[MediaManager] Creating video producer...');
       this.localVideoProducer = await sendTransport.produce({
         track: videoTrack,
-        encodings: [{ maxBitrate: 500000 }, { maxBitrate: 1000000 }, { maxBitrate: 2000000 }],
-        codecOptions: {
-          videoGoogleStartBitrate: 1000,
-        },
+        encodings: options.encodings,
+        codecOptions: options.codecOptions,
+        appData: { source: 'camera' },
       });
 
+      // Video muted before a reconnection stays muted
+      if (this.videoMuted) {
+        this.localVideoProducer.pause();
+      }
+
       this.wasVideoActive = true;
+      this.activeVideoOptions = options;
+      this.videoAdaptation = new AdaptiveSenderController(options.encodings);
+      this.appliedAdaptation = undefined;
       console.log(`[MediaManager] Video producer created: ${this.localVideoProducer.id}`);
       this.emit('localVideoStarted', { producer: this.localVideoProducer });
 
@@ -79,19 +151,398 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
       this.localVideoProducer.close();
       this.localVideoProducer = undefined;
       this.wasVideoActive = false;
+      this.videoMuted = false;
+      this.videoAdaptation = undefined;
       console.log('[MediaManager] Video stopped');
       this.emit('localVideoStopped');
     }
   }
 
   /**
-   * Create consumer for remote participant's video.
+   * Start microphone capture and create audio producer.
+   * Overrides apply to this call only; explicit constraints force a fresh capture.
+   */
+  async startAudio(
+    sendTransport: mediasoupClient.types.Transport,
+    overrides: StartAudioOptions = {}
+  ): Promise<void> {
+    if (this.localAudioProducer) {
+      console.log('[MediaManager] Audio already active');
+      return;
+    }
+
+    this.watchDevices();
+    const options = resolveAudioOptions(this.audioOptions, overrides);
+
+    try {
+      console.log('[MediaManager] Requesting microphone access...');
+
+      // Reuse saved stream if available (for reconnection)
+      let stream = this.savedAudioStream;
+      if (
+        !stream ||
+        overrides.constraints ||
+        stream.getTracks().every(track => track.readyState === 'ended')
+      ) {
+        stream?.getTracks().forEach(track => track.stop());
+        stream = await navigator.mediaDevices.getUserMedia({
+          video: false,
+          audio: this.withDevice(options.constraints, this.audioDeviceId),
+        });
+        this.savedAudioStream = stream;
+      }
+
+      const audioTrack = stream.getAudioTracks()[0];
+      if (!audioTrack) {
+        throw new Error('No audio track found in media stream');
+      }
+
+      console.log('[MediaManager] Creating audio producer...');
+      this.localAudioProducer = await sendTransport.produce({
+        track: audioTrack,
+        codecOptions: options.codecOptions,
+      });
+
+      // Audio muted before a reconnection stays muted
+      if (this.audioMuted) {
+        this.localAudioProducer.pause();
+      }
+
+      this.wasAudioActive = true;
+      this.activeAudioOptions = options;
+      console.log(`[MediaManager] Audio producer created: ${this.localAudioProducer.id}`);
+      this.emit('localAudioStarted', { producer: this.localAudioProducer });
+
+      // Handle transport close
+      this.localAudioProducer.on('transportclose', () => {
+        console.log('[MediaManager] Audio producer transport closed');
+        this.localAudioProducer = undefined;
+        this.emit('localAudioStopped');
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[MediaManager] Failed to start audio:', errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop microphone capture and close audio producer.
+   */
+  async stopAudio(): Promise<void> {
+    if (this.localAudioProducer) {
+      this.localAudioProducer.close();
+      this.localAudioProducer = undefined;
+      this.wasAudioActive = false;
+      this.audioMuted = false;
+      console.log('[MediaManager] Audio stopped');
+      this.emit('localAudioStopped');
+    }
+  }
+
+  /**
+   * List the cameras and microphones that can be selected.
+   */
+  async listDevices(): Promise<MediaInputDevices> {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return {
+      videoInputs: devices.filter(device => device.kind === 'videoinput'),
+      audioInputs: devices.filter(device => device.kind === 'audioinput'),
+    };
+  }
+
+  /**
+   * Select the camera, or the browser default when deviceId is undefined.
+   * An active producer switches tracks in place via replaceTrack, without renegotiation.
+   */
+  async setVideoInput(deviceId?: string): Promise<void> {
+    if (!this.localVideoProducer) {
+      this.videoDeviceId = deviceId;
+      // Next startVideo captures from the selected device
+      this.savedMediaStream?.getTracks().forEach(track => track.stop());
+      this.savedMediaStream = undefined;
+      return;
+    }
+
+    const { constraints } = this.activeVideoOptions ?? this.videoOptions;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: this.withDevice(constraints, deviceId),
+      audio: false,
+    });
+
+    try {
+      const videoTrack = stream.getVideoTracks()[0];
+      if (!videoTrack) {
+        throw new Error('No video track found in media stream');
+      }
+      await this.localVideoProducer.replaceTrack({ track: videoTrack });
+    } catch (error) {
+      // Keep sending the current track and release the device we just opened
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+    this.savedMediaStream?.getTracks().forEach(track => track.stop());
+    this.savedMediaStream = stream;
+    this.videoDeviceId = deviceId;
+    console.log(`[MediaManager] Video input switched to ${deviceId ?? 'default device'}`);
+  }
+
+  /**
+   * Select the microphone, or the browser default when deviceId is undefined.
+   * An active producer switches tracks in place via replaceTrack, without renegotiation.
+   */
+  async setAudioInput(deviceId?: string): Promise<void> {
+    if (!this.localAudioProducer) {
+      this.audioDeviceId = deviceId;
+      // Next startAudio captures from the selected device
+      this.savedAudioStream?.getTracks().forEach(track => track.stop());
+      this.savedAudioStream = undefined;
+      return;
+    }
+
+    const { constraints } = this.activeAudioOptions ?? this.audioOptions;
+    const stream = await navigator.mediaDevices.getUserMedia({
+      video: false,
+      audio: this.withDevice(constraints, deviceId),
+    });
+
+    try {
+      const audioTrack = stream.getAudioTracks()[0];
+      if (!audioTrack) {
+        throw new Error('No audio track found in media stream');
+      }
+      await this.localAudioProducer.replaceTrack({ track: audioTrack });
+    } catch (error) {
+      stream.getTracks().forEach(track => track.stop());
+      throw error;
+    }
+    this.savedAudioStream?.getTracks().forEach(track => track.stop());
+    this.savedAudioStream = stream;
+    this.audioDeviceId = deviceId;
+    console.log(`[MediaManager] Audio input switched to ${deviceId ?? 'default device'}`);
+  }
+
+  /**
+   * Fall back to the default device for selected inputs that are no longer present.
+   * Returns the media kinds that fell back.
+   */
+  async fallBackFromMissingInputs(devices: MediaInputDevices): Promise<MediaKind[]> {
+    const fellBack: MediaKind[] = [];
+
+    const hasDevice = (list: MediaDeviceInfo[], deviceId: string) =>
+      list.some(device => device.deviceId === deviceId);
+
+    if (this.videoDeviceId && !hasDevice(devices.videoInputs, this.videoDeviceId)) {
+      console.warn(`[MediaManager] Camera ${this.videoDeviceId} disappeared, using default`);
+      await this.setVideoInput(undefined);
+      fellBack.push('video');
+    }
+
+    if (this.audioDeviceId && !hasDevice(devices.audioInputs, this.audioDeviceId)) {
+      console.warn(`[MediaManager] Microphone ${this.audioDeviceId} disappeared, using default`);
+      await this.setAudioInput(undefined);
+      fellBack.push('audio');
+    }
+
+    return fellBack;
+  }
+
+  /**
+   * Adapt the camera producer to the outgoing stats of the latest sample:
+   * disable top simulcast encodings under congestion, cap the frame rate when the
+   * CPU is overloaded, and restore quality when conditions recover.
+   */
+  async adaptVideoSender(stats: CallStats): Promise<void> {
+    const producer = this.localVideoProducer;
+    if (!producer || !this.videoAdaptation || this.videoMuted) {
+      return;
+    }
+
+    const producerStats = stats.producers.find(entry => entry.producerId === producer.id);
+    if (!producerStats) {
+      return;
+    }
+
+    const adaptation = this.videoAdaptation.evaluate({
+      ...producerStats,
+      availableOutgoingBitrate:
+        producerStats.availableOutgoingBitrate ?? stats.send?.availableOutgoingBitrate,
+    });
+    if (!adaptation) {
+      return;
+    }
+
+    const previous = this.appliedAdaptation;
+    if (adaptation.maxSpatialLayer !== previous?.maxSpatialLayer) {
+      await producer.setMaxSpatialLayer(adaptation.maxSpatialLayer);
+    }
+    if (adaptation.maxFramerate !== previous?.maxFramerate) {
+      await this.setEncodingFramerates(producer, this.videoAdaptation.encodingFramerates());
+    }
+    this.appliedAdaptation = adaptation;
+
+    console.log(
+      `[MediaManager] Video adapted (${adaptation.reason}): max layer ${adaptation.maxSpatialLayer}, max framerate ${adaptation.maxFramerate ?? 'default'}`
+    );
+    this.emit('localQualityAdapted', adaptation);
+  }
+
+  /**
+   * Set the frame rate of each encoding on the sender. setRtpEncodingParameters() would
+   * apply one value to all encodings and lose the rates configured per encoding.
+   */
+  private async setEncodingFramerates(
+    producer: mediasoupClient.types.Producer,
+    framerates: Array<number | undefined>
+  ): Promise<void> {
+    const sender = producer.rtpSender;
+    if (!sender) {
+      return;
+    }
+
+    const parameters = sender.getParameters();
+    parameters.encodings.forEach((encoding, index) => {
+      encoding.maxFramerate = framerates[index];
+    });
+    await sender.setParameters(parameters);
+  }
+
+  /**
+   * Pause the video producer without releasing the camera.
+   * Returns whether the producer was paused.
+   */
+  muteVideo(): boolean {
+    if (!this.localVideoProducer || this.videoMuted) {
+      return false;
+    }
+    this.localVideoProducer.pause();
+    this.videoMuted = true;
+    console.log('[MediaManager] Video muted');
+    return true;
+  }
+
+  /**
+   * Resume a paused video producer.
+   * Returns whether the producer was resumed.
+   */
+  unmuteVideo(): boolean {
+    if (!this.localVideoProducer || !this.videoMuted) {
+      return false;
+    }
+    this.localVideoProducer.resume();
+    this.videoMuted = false;
+    console.log('[MediaManager] Video unmuted');
+    return true;
+  }
+
+  /**
+   * Pause the audio producer without releasing the microphone.
+   * Returns whether the producer was paused.
+   */
+  muteAudio(): boolean {
+    if (!this.localAudioProducer || this.audioMuted) {
+      return false;
+    }
+    this.localAudioProducer.pause();
+    this.audioMuted = true;
+    console.log('[MediaManager] Audio muted');
+    return true;
+  }
+
+  /**
+   * Resume a paused audio producer.
+   * Returns whether the producer was resumed.
+   */
+  unmuteAudio(): boolean {
+    if (!this.localAudioProducer || !this.audioMuted) {
+      return false;
+    }
+    this.localAudioProducer.resume();
+    this.audioMuted = false;
+    console.log('[MediaManager] Audio unmuted');
+    return true;
+  }
+
+  /**
+   * Capture the screen and create a second video producer tagged as a screen share.
+   */
+  async startScreenShare(sendTransport: mediasoupClient.types.Transport): Promise<void> {
+    if (this.localScreenProducer) {
+      console.log('[MediaManager] Screen share already active');
+      return;
+    }
+
+    try {
+      // Reuse a live capture when restoring after reconnection
+      let stream = this.savedScreenStream;
+      if (!stream || stream.getTracks().every(track => track.readyState === 'ended')) {
+        console.log('[MediaManager] Requesting screen capture...');
+        stream = await navigator.mediaDevices.getDisplayMedia({
+          video: DEFAULT_SCREEN_SHARE_CONSTRAINTS,
+          audio: false,
+        });
+        this.savedScreenStream = stream;
+      }
+
+      const screenTrack = stream.getVideoTracks()[0];
+      if (!screenTrack) {
+        throw new Error('No video track found in screen capture');
+      }
+
+      console.log('[MediaManager] Creating screen share producer...');
+      this.localScreenProducer = await sendTransport.produce({
+        track: screenTrack,
+        encodings: DEFAULT_SCREEN_SHARE_ENCODINGS,
+        appData: { source: 'screen' },
+      });
+
+      this.wasScreenShareActive = true;
+      console.log(`[MediaManager] Screen share producer created: ${this.localScreenProducer.id}`);
+      this.emit('localScreenShareStarted', { producer: this.localScreenProducer });
+
+      // The browser's "Stop sharing" button ends the track
+      this.localScreenProducer.on('trackended', () => {
+        console.log('[MediaManager] Screen share ended by user');
+        this.emit('screenShareEnded');
+      });
+
+      // Handle transport close
+      this.localScreenProducer.on('transportclose', () => {
+        console.log('[MediaManager] Screen share producer transport closed');
+        this.localScreenProducer = undefined;
+        this.emit('localScreenShareStopped');
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[MediaManager] Failed to start screen share:', errorMessage);
+      throw error;
+    }
+  }
+
+  /**
+   * Stop screen capture and close the screen share producer.
+   */
+  async stopScreenShare(): Promise<void> {
+    if (this.localScreenProducer) {
+      this.localScreenProducer.close();
+      this.localScreenProducer = undefined;
+      this.wasScreenShareActive = false;
+      this.savedScreenStream?.getTracks().forEach(track => track.stop());
+      this.savedScreenStream = undefined;
+      console.log('[MediaManager] Screen share stopped');
+      this.emit('localScreenShareStopped');
+    }
+  }
+
+  /**
+   * Create consumer for remote participant's audio or video.
    */
   async createConsumer(
     recvTransport: mediasoupClient.types.Transport,
-    consumerData: any,
+    consumerData: ConsumerCreatedMessage,
     producerId: string,
-    userId: string
+    userId: string,
+    source?: VideoSource
   ): Promise<void> {
     try {
       console.log(`[MediaManager] Creating consumer for producer ${producerId}`);
@@ -103,15 +554,37 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
         rtpParameters: consumerData.rtpParameters,
       });
 
+      const paused = !!consumerData.producerPaused;
+      if (paused) {
+        consumer.pause();
+      }
+
       this.remoteConsumers.set(producerId, {
         userId,
         producerId,
+        kind: consumer.kind,
+        source: consumer.kind === 'video' ? (source ?? 'camera') : undefined,
+        paused,
         consumer,
         track: consumer.track,
       });
 
-      console.log(`[MediaManager] Consumer created for ${userId}: ${consumer.id}`);
-      this.emit('remoteVideoStarted', { userId, producerId, track: consumer.track });
+      console.log(`[MediaManager] ${consumer.kind} consumer created for ${userId}: ${consumer.id}`);
+      if (consumer.kind === 'audio') {
+        this.emit('remoteAudioStarted', { userId, producerId, track: consumer.track });
+      } else {
+        this.emit('remoteVideoStarted', {
+          userId,
+          producerId,
+          source: source ?? 'camera',
+          track: consumer.track,
+        });
+      }
+
+      // Let the UI show the tile as muted from the start
+      if (paused) {
+        this.emit('remoteMuteChanged', { userId, producerId, kind: consumer.kind, muted: true });
+      }
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : 'Unknown error';
       console.error('[MediaManager] Failed to create consumer:', errorMessage);
@@ -119,15 +592,92 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
     }
   }
 
+  /**
+   * Check if a producer is already being consumed.
+   */
+  hasConsumer(producerId: string): boolean {
+    return this.remoteConsumers.has(producerId);
+  }
+
+  /**
+   * Pause or resume a remote consumer after its producer was muted or unmuted.
+   */
+  setRemotePaused(producerId: string, paused: boolean): void {
+    const consumerInfo = this.remoteConsumers.get(producerId);
+    if (!consumerInfo || consumerInfo.paused === paused) {
+      return;
+    }
+
+    if (paused) {
+      consumerInfo.consumer.pause();
+    } else {
+      consumerInfo.consumer.resume();
+    }
+    consumerInfo.paused = paused;
+
+    console.log(
+      `[MediaManager] Remote ${consumerInfo.kind} ${producerId} ${paused ? 'muted' : 'unmuted'}`
+    );
+    this.emit('remoteMuteChanged', {
+      userId: consumerInfo.userId,
+      producerId,
+      kind: consumerInfo.kind,
+      muted: paused,
+    });
+  }
+
+  /**
+   * Record the layers preferred for a remote video.
+   * Returns the id of the consumer the preference applies to.
+   */
+  setPreferredLayers(producerId: string, layers: ConsumerLayers): string {
+    const consumerInfo = this.remoteConsumers.get(producerId);
+    if (!consumerInfo || consumerInfo.kind !== 'video') {
+      throw new Error(`No remote video for producer ${producerId}`);
+    }
+
+    this.preferredLayers.set(producerId, layers);
+    return consumerInfo.consumer.id;
+  }
+
+  /**
+   * Get the layers preferred for a remote video, if any.
+   */
+  preferredLayersFor(producerId: string): ConsumerLayers | undefined {
+    return this.preferredLayers.get(producerId);
+  }
+
+  /**
+   * Apply the layers the server reports for a consumer.
+   */
+  updateConsumerLayers(
+    consumerId: string,
+    producerId: string,
+    layers: Required<ConsumerLayers>
+  ): void {
+    const consumerInfo = this.remoteConsumers.get(producerId);
+    // Ignore reports for consumers replaced since
+    if (!consumerInfo || consumerInfo.consumer.id !== consumerId) {
+      return;
+    }
+
+    consumerInfo.layers = layers;
+    console.log(
+      `[MediaManager] Layers for ${producerId}: spatial ${layers.spatialLayer}, temporal ${layers.temporalLayer}`
+    );
+    this.emit('layersChanged', { userId: consumerInfo.userId, producerId, ...layers });
+  }
+
   /**
    * Remove consumer for closed producer.
    */
   removeConsumer(producerId: string, userId: string): void {
+    this.preferredLayers.delete(producerId);
     const consumerInfo = this.remoteConsumers.get(producerId);
     if (consumerInfo) {
       consumerInfo.consumer.close();
       this.remoteConsumers.delete(producerId);
-      this.emit('remoteVideoStopped', { userId, producerId });
+      this.emitRemoteStopped(consumerInfo.kind, userId, producerId);
       console.log(`[MediaManager] Removed consumer for closed producer ${producerId}`);
     }
   }
@@ -142,15 +692,13 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
     for (const [producerId, consumerInfo] of this.remoteConsumers) {
       try {
         consumerInfo.consumer.close();
-        this.emit('remoteVideoStopped', {
-          userId: consumerInfo.userId,
-          producerId,
-        });
+        this.emitRemoteStopped(consumerInfo.kind, consumerInfo.userId, producerId);
       } catch (error) {
         console.error(`[MediaManager] Failed to close consumer ${producerId}:`, error);
       }
     }
     this.remoteConsumers.clear();
+    this.preferredLayers.clear();
 
     // Close local media stream
     if (this.savedMediaStream) {
@@ -158,36 +706,185 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
       this.savedMediaStream = undefined;
     }
 
+    if (this.savedAudioStream) {
+      this.savedAudioStream.getTracks().forEach(track => track.stop());
+      this.savedAudioStream = undefined;
+    }
+
+    if (this.savedScreenStream) {
+      this.savedScreenStream.getTracks().forEach(track => track.stop());
+      this.savedScreenStream = undefined;
+    }
+
     this.localVideoProducer = undefined;
+    this.localAudioProducer = undefined;
+    this.localScreenProducer = undefined;
+
+    if (typeof navigator !== 'undefined') {
+      navigator.mediaDevices?.removeEventListener?.('devicechange', this.handleDeviceChange);
+    }
+  }
+
+  /**
+   * Release producers and consumers bound to transports that are being recreated.
+   * Captured streams and the was-active flags are kept so media can be restored.
+   */
+  releaseTransportMedia(): void {
+    console.log('[MediaManager] Releasing media bound to closed transports...');
+
+    this.localVideoProducer?.close();
+    this.localVideoProducer = undefined;
+    this.localAudioProducer?.close();
+    this.localAudioProducer = undefined;
+    this.localScreenProducer?.close();
+    this.localScreenProducer = undefined;
+
+    for (const [producerId, consumerInfo] of this.remoteConsumers) {
+      consumerInfo.consumer.close();
+      this.emitRemoteStopped(consumerInfo.kind, consumerInfo.userId, producerId);
+    }
+    this.remoteConsumers.clear();
+  }
+
+  /**
+   * Remove consumers whose producers are not in the given set.
+   */
+  retainConsumers(producerIds: Set<string>): void {
+    for (const [producerId, consumerInfo] of this.remoteConsumers) {
+      if (!producerIds.has(producerId)) {
+        this.removeConsumer(producerId, consumerInfo.userId);
+      }
+    }
   }
 
   /**
    * Restore video after reconnection if it was active.
+   * Returns whether video was restored.
    */
-  async restoreVideoIfNeeded(sendTransport: mediasoupClient.types.Transport): Promise<void> {
+  async restoreVideoIfNeeded(sendTransport: mediasoupClient.types.Transport): Promise<boolean> {
     if (this.wasVideoActive && !this.localVideoProducer) {
       try {
-        await this.startVideo(sendTransport);
+        const { encodings, codecOptions } = this.activeVideoOptions ?? this.videoOptions;
+        await this.startVideo(sendTransport, { encodings, codecOptions });
+        return true;
       } catch (error) {
         console.error('[MediaManager] Failed to restore video after reconnection:', error);
       }
     }
+    return false;
   }
 
   /**
-   * Get remote video tracks for UI consumption.
+   * Restore audio after reconnection if it was active.
+   * Returns whether audio was restored.
    */
-  get remoteVideoTracks() {
-    const tracks = new Map<string, { userId: string; track: MediaStreamTrack }>();
+  async restoreAudioIfNeeded(sendTransport: mediasoupClient.types.Transport): Promise<boolean> {
+    if (this.wasAudioActive && !this.localAudioProducer) {
+      try {
+        const { codecOptions } = this.activeAudioOptions ?? this.audioOptions;
+        await this.startAudio(sendTransport, { codecOptions });
+        return true;
+      } catch (error) {
+        console.error('[MediaManager] Failed to restore audio after reconnection:', error);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Restore screen share after reconnection if it was active and the capture is still live.
+   * Returns whether screen share was restored.
+   */
+  async restoreScreenShareIfNeeded(
+    sendTransport: mediasoupClient.types.Transport
+  ): Promise<boolean> {
+    const captureLive = this.savedScreenStream
+      ?.getTracks()
+      .some(track => track.readyState === 'live');
+    if (this.wasScreenShareActive && !this.localScreenProducer && captureLive) {
+      try {
+        await this.startScreenShare(sendTransport);
+        return true;
+      } catch (error) {
+        console.error('[MediaManager] Failed to restore screen share after reconnection:', error);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Listen for devices being plugged in or removed; adding the same handler again is a no-op.
+   */
+  private watchDevices(): void {
+    if (typeof navigator !== 'undefined') {
+      navigator.mediaDevices?.addEventListener?.('devicechange', this.handleDeviceChange);
+    }
+  }
+
+  /**
+   * Re-list devices when one is plugged in or removed.
+   */
+  private handleDeviceChange = async (): Promise<void> => {
+    try {
+      this.emit('devicesChanged', await this.listDevices());
+    } catch (error) {
+      console.error('[MediaManager] Failed to list devices:', error);
+    }
+  };
+
+  /**
+   * Pin capture constraints to a device if one is selected.
+   */
+  private withDevice(constraints: MediaTrackConstraints, deviceId?: string): MediaTrackConstraints {
+    return deviceId ? { ...constraints, deviceId: { exact: deviceId } } : constraints;
+  }
+
+  /**
+   * Emit the stopped event matching the consumer's media kind.
+   */
+  private emitRemoteStopped(kind: MediaKind, userId: string, producerId: string): void {
+    if (kind === 'audio') {
+      this.emit('remoteAudioStopped', { userId, producerId });
+    } else {
+      this.emit('remoteVideoStopped', { userId, producerId });
+    }
+  }
+
+  /**
+   * Collect remote tracks of the given kind keyed by producer id.
+   */
+  private remoteTracksOfKind(kind: MediaKind) {
+    const tracks = new Map<
+      string,
+      { userId: string; source?: VideoSource; muted: boolean; track: MediaStreamTrack }
+    >();
     for (const [producerId, consumer] of this.remoteConsumers) {
-      tracks.set(producerId, {
-        userId: consumer.userId,
-        track: consumer.track,
-      });
+      if (consumer.kind === kind) {
+        tracks.set(producerId, {
+          userId: consumer.userId,
+          source: consumer.source,
+          muted: consumer.paused,
+          track: consumer.track,
+        });
+      }
     }
     return tracks;
   }
 
+  /**
+   * Get remote video tracks for UI consumption.
+   */
+  get remoteVideoTracks() {
+    return this.remoteTracksOfKind('video');
+  }
+
+  /**
+   * Get remote audio tracks for playback.
+   */
+  get remoteAudioTracks() {
+    return this.remoteTracksOfKind('audio');
+  }
+
   /**
    * Check if local video is active.
    */
@@ -195,11 +892,88 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
     return !!this.localVideoProducer;
   }
 
+  /**
+   * Get the id of the local video producer, if any.
+   */
+  get videoProducerId(): string | undefined {
+    return this.localVideoProducer?.id;
+  }
+
+  /**
+   * Get the id of the local audio producer, if any.
+   */
+  get audioProducerId(): string | undefined {
+    return this.localAudioProducer?.id;
+  }
+
+  /**
+   * Check if local audio is active.
+   */
+  get hasLocalAudio(): boolean {
+    return !!this.localAudioProducer;
+  }
+
+  /**
+   * Check if local video is muted.
+   */
+  get isVideoMuted(): boolean {
+    return this.videoMuted;
+  }
+
+  /**
+   * Check if local audio is muted.
+   */
+  get isAudioMuted(): boolean {
+    return this.audioMuted;
+  }
+
+  /**
+   * Check if local screen share is active.
+   */
+  get hasLocalScreenShare(): boolean {
+    return !!this.localScreenProducer;
+  }
+
+  /**
+   * Get the id of the local screen share producer, if any.
+   */
+  get screenShareProducerId(): string | undefined {
+    return this.localScreenProducer?.id;
+  }
+
+  /**
+   * Get the active local producers and the media they send.
+   */
+  get localProducers(): LocalProducer[] {
+    const producers: LocalProducer[] = [];
+    if (this.localVideoProducer) {
+      producers.push({ producer: this.localVideoProducer, kind: 'video', source: 'camera' });
+    }
+    if (this.localAudioProducer) {
+      producers.push({ producer: this.localAudioProducer, kind: 'audio' });
+    }
+    if (this.localScreenProducer) {
+      producers.push({ producer: this.localScreenProducer, kind: 'video', source: 'screen' });
+    }
+    return producers;
+  }
+
+  /**
+   * Get every consumer of remote media.
+   */
+  get remoteConsumerList(): RemoteConsumer[] {
+    return Array.from(this.remoteConsumers.values());
+  }
+
   /**
    * Get number of remote participants.
    */
   get remoteParticipantCount(): number {
-    return this.remoteConsumers.size;
+    const userIds = new Set<string>();
+    for (const consumer of this.remoteConsumers.values()) {
+      userIds.add(consumer.userId);
+    }
+    return userIds.size;
   }
 
   /**
@@ -208,4 +982,18 @@ export class MediaManager extends TypedEventEmitter<MediaEvents> {
   get videoWasActive(): boolean {
     return this.wasVideoActive;
   }
+
+  /**
+   * Check if audio was active (for reconnection state).
+   */
+  get audioWasActive(): boolean {
+    return this.wasAudioActive;
+  }
+
+  /**
+   * Check if screen share was active (for reconnection state).
+   */
+  get screenShareWasActive(): boolean {
+    return this.wasScreenShareActive;
+  }
 }
\ No newline at end of file
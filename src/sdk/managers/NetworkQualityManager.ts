@@ -0,0 +1,224 @@
+import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
+import { NetworkQualityEvents } from '../../types/events';
+import { CallStats, MediaStats, NetworkQuality } from '../../types/media';
+
+/**
+ * Consecutive samples a new score must persist for before it is reported
+ */
+const HYSTERESIS_SAMPLES = 2;
+
+/**
+ * Upper bounds for each score penalty step: below the first bound costs nothing,
+ * at or above the last bound the score drops to 0.
+ */
+const LOSS_STEPS = [0.01, 0.03, 0.06, 0.1, 0.2];
+const RTT_STEPS = [0.15, 0.25, 0.4, 0.6, 1];
+const JITTER_STEPS = [0.03, 0.05, 0.08, 0.12, 0.2];
+
+/**
+ * Count how many step bounds a value reaches.
+ */
+function penalty(value: number | undefined, steps: number[]): number {
+  if (value === undefined) {
+    return 0;
+  }
+  return steps.filter(bound => value >= bound).length;
+}
+
+/**
+ * Score a link from 0 (unusable) to 5 (excellent) by its worst metric.
+ * Loss is a fraction, RTT and jitter are in seconds.
+ */
+export function scoreLink(loss?: number, roundTripTime?: number, jitter?: number): number {
+  return (
+    5 -
+    Math.max(
+      penalty(loss, LOSS_STEPS),
+      penalty(roundTripTime, RTT_STEPS),
+      penalty(jitter, JITTER_STEPS)
+    )
+  );
+}
+
+/**
+ * Score with hysteresis: the reported value only follows the raw score
+ * once the raw score stayed the same for several samples.
+ */
+interface SmoothedScore {
+  value: number;
+  candidate: number;
+  samples: number;
+}
+
+/**
+ * Packet counters from a previous sample, used to derive loss between samples
+ */
+interface PacketSample {
+  received: number;
+  lost: number;
+}
+
+/**
+ * Estimates uplink and downlink quality scores (0-5) from periodic call stats.
+ * The local user gets an uplink score from what it sends and a downlink score from
+ * everything it receives; every remote participant gets a downlink score from its consumers.
+ */
+export class NetworkQualityManager extends TypedEventEmitter<NetworkQualityEvents> {
+  private scores = new Map<string, SmoothedScore>();
+  private packetSamples = new Map<string, PacketSample>();
+  private reported = new Map<string, NetworkQuality>();
+
+  /**
+   * Update scores from a stats snapshot and emit changes.
+   */
+  update(stats: CallStats, localUserId: string): void {
+    const next = new Map<string, NetworkQuality>();
+    const previousPackets = this.packetSamples;
+    this.packetSamples = new Map();
+
+    // Local uplink: loss and RTT the server reports back for our streams
+    let uplink: number | undefined;
+    if (stats.producers.length > 0) {
+      const sent = this.worstOf([stats.send, ...stats.producers]);
+      uplink = this.smooth(
+        `${localUserId}:uplink`,
+        scoreLink(sent.fractionLost, sent.roundTripTime, sent.jitter)
+      );
+    }
+
+    // Local downlink: everything arriving on the receive transport
+    let downlink: number | undefined;
+    if (stats.recv && stats.consumers.length > 0) {
+      const loss = this.intervalLoss('transport:recv', stats.recv, previousPackets);
+      downlink = this.smooth(
+        `${localUserId}:downlink`,
+        scoreLink(loss, stats.recv.roundTripTime, stats.recv.jitter)
+      );
+    }
+    next.set(localUserId, { uplink, downlink });
+
+    // Remote downlinks: what we receive from each participant
+    const receivedByUser = new Map<string, MediaStats[]>();
+    for (const consumer of stats.consumers) {
+      const received = receivedByUser.get(consumer.userId) ?? [];
+      received.push({
+        ...consumer,
+        fractionLost: this.intervalLoss(
+          `consumer:${consumer.producerId}`,
+          consumer,
+          previousPackets
+        ),
+      });
+      receivedByUser.set(consumer.userId, received);
+    }
+
+    for (const [userId, received] of receivedByUser) {
+      const worst = this.worstOf([...received, { roundTripTime: stats.recv?.roundTripTime }]);
+      const score = scoreLink(worst.fractionLost, worst.roundTripTime, worst.jitter);
+      next.set(userId, { downlink: this.smooth(`${userId}:downlink`, score) });
+    }
+
+    this.report(next);
+  }
+
+  /**
+   * Get the last reported quality of a participant.
+   */
+  qualityOf(userId: string): NetworkQuality {
+    return this.reported.get(userId) ?? {};
+  }
+
+  /**
+   * Forget all scores, e.g. when leaving a call.
+   */
+  reset(): void {
+    this.scores.clear();
+    this.packetSamples.clear();
+    this.reported.clear();
+  }
+
+  /**
+   * Emit participants whose reported quality changed and drop those no longer present.
+   */
+  private report(next: Map<string, NetworkQuality>): void {
+    for (const [userId, quality] of next) {
+      const previous = this.reported.get(userId);
+      if (previous?.uplink !== quality.uplink || previous?.downlink !== quality.downlink) {
+        this.reported.set(userId, quality);
+        this.emit('networkQualityChanged', { userId, ...quality });
+      }
+    }
+
+    for (const userId of this.reported.keys()) {
+      if (!next.has(userId)) {
+        this.reported.delete(userId);
+        for (const direction of ['uplink', 'downlink']) {
+          this.scores.delete(`${userId}:${direction}`);
+        }
+      }
+    }
+  }
+
+  /**
+   * Apply hysteresis to a raw score. The first score is reported right away.
+   */
+  private smooth(key: string, raw: number): number {
+    const score = this.scores.get(key);
+    if (!score) {
+      this.scores.set(key, { value: raw, candidate: raw, samples: 0 });
+      return raw;
+    }
+
+    if (raw === score.value) {
+      score.samples = 0;
+    } else if (raw === score.candidate) {
+      score.samples++;
+    } else {
+      score.candidate = raw;
+      score.samples = 1;
+    }
+
+    if (score.samples >= HYSTERESIS_SAMPLES) {
+      score.value = score.candidate;
+      score.samples = 0;
+    }
+    return score.value;
+  }
+
+  /**
+   * Fraction of packets lost since the previous sample of the same stream.
+   */
+  private intervalLoss(
+    key: string,
+    stats: MediaStats,
+    previousPackets: Map<string, PacketSample>
+  ): number | undefined {
+    const received = stats.packetsReceived ?? 0;
+    const lost = stats.packetsLost ?? 0;
+    const previous = previousPackets.get(key);
+    this.packetSamples.set(key, { received, lost });
+
+    if (!previous) {
+      return undefined;
+    }
+    const newlyLost = Math.max(0, lost - previous.lost);
+    const expected = received - previous.received + newlyLost;
+    return expected > 0 ? newlyLost / expected : undefined;
+  }
+
+  /**
+   * Combine stats keeping the worst loss, RTT and jitter.
+   */
+  private worstOf(stats: Array<MediaStats | undefined>): MediaStats {
+    const result: MediaStats = {};
+    for (const entry of stats) {
+      for (const key of ['fractionLost', 'roundTripTime', 'jitter'] as const) {
+        const value = entry?.[key];
+        if (value !== undefined) {
+          result[key] = Math.max(result[key] ?? 0, value);
+        }
+      }
+    }
+    return result;
+  }
+}
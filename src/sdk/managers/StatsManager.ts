@@ -0,0 +1,222 @@
+import { TypedEventEmitter } from '../../utils/TypedEventEmitter';
+import { StatsEvents } from '../../types/events';
+import { CallStats, MediaStats } from '../../types/media';
+import { DEFAULT_CLIENT_OPTIONS } from '../../types/options';
+import { DeviceManager } from './DeviceManager';
+import { MediaManager } from './MediaManager';
+
+/**
+ * Byte counter from a previous sample, used to derive bitrates
+ */
+interface ByteSample {
+  bytes: number;
+  timestamp: number;
+}
+
+/**
+ * Numeric fields of MediaStats
+ */
+type NumericStat = Exclude<keyof MediaStats, 'cpuLimited'>;
+
+/**
+ * Add a numeric stats field to a running total.
+ */
+function accumulate(stats: MediaStats, key: NumericStat, value: unknown): void {
+  if (typeof value === 'number') {
+    stats[key] = (stats[key] ?? 0) + value;
+  }
+}
+
+/**
+ * Keep the worst value of a numeric stats field.
+ */
+function worst(stats: MediaStats, key: NumericStat, value: unknown): void {
+  if (typeof value === 'number') {
+    stats[key] = Math.max(stats[key] ?? 0, value);
+  }
+}
+
+/**
+ * Normalize a WebRTC stats report into MediaStats.
+ * Counters are summed over RTP streams (e.g. simulcast encodings); jitter, loss and RTT
+ * keep the worst stream. Jitter and RTT are in seconds as reported by the browser.
+ */
+export function normalizeStats(report: RTCStatsReport): MediaStats {
+  const stats: MediaStats = {};
+  let candidatePairRtt: number | undefined;
+
+  report.forEach(entry => {
+    switch (entry.type) {
+      case 'outbound-rtp':
+        accumulate(stats, 'bytesSent', entry.bytesSent);
+        accumulate(stats, 'packetsSent', entry.packetsSent);
+        if (entry.qualityLimitationReason === 'cpu') {
+          stats.cpuLimited = true;
+        }
+        break;
+      case 'inbound-rtp':
+        accumulate(stats, 'bytesReceived', entry.bytesReceived);
+        accumulate(stats, 'packetsReceived', entry.packetsReceived);
+        accumulate(stats, 'packetsLost', entry.packetsLost);
+        worst(stats, 'jitter', entry.jitter);
+        break;
+      case 'remote-inbound-rtp':
+        // Loss and RTT of our outgoing streams as reported back by the receiver
+        accumulate(stats, 'packetsLost', entry.packetsLost);
+        worst(stats, 'fractionLost', entry.fractionLost);
+        worst(stats, 'jitter', entry.jitter);
+        worst(stats, 'roundTripTime', entry.roundTripTime);
+        break;
+      case 'candidate-pair':
+        if (entry.nominated && typeof entry.currentRoundTripTime === 'number') {
+          candidatePairRtt = entry.currentRoundTripTime;
+        }
+        if (entry.nominated && typeof entry.availableOutgoingBitrate === 'number') {
+          stats.availableOutgoingBitrate = entry.availableOutgoingBitrate;
+        }
+        break;
+    }
+  });
+
+  // Receivers get no RTCP reports about RTT, fall back to the ICE connection
+  if (stats.roundTripTime === undefined && candidatePairRtt !== undefined) {
+    stats.roundTripTime = candidatePairRtt;
+  }
+  return stats;
+}
+
+/**
+ * Polls WebRTC statistics of transports, producers and consumers
+ * and reports them as normalized MediaStats at a fixed interval.
+ */
+export class StatsManager extends TypedEventEmitter<StatsEvents> {
+  private deviceManager: DeviceManager;
+  private mediaManager: MediaManager;
+  private interval: number;
+  private timer?: ReturnType<typeof setInterval>;
+  private polling = false;
+  private lastSamples = new Map<string, ByteSample>();
+
+  constructor(
+    deviceManager: DeviceManager,
+    mediaManager: MediaManager,
+    interval = DEFAULT_CLIENT_OPTIONS.statsInterval
+  ) {
+    super();
+    this.deviceManager = deviceManager;
+    this.mediaManager = mediaManager;
+    this.interval = interval;
+  }
+
+  /**
+   * Start emitting statsUpdated. Does nothing when polling is disabled.
+   */
+  start(): void {
+    if (this.timer || this.interval === 0) {
+      return;
+    }
+    console.log(`[StatsManager] Polling stats every ${this.interval}ms`);
+    this.timer = setInterval(() => this.poll(), this.interval);
+  }
+
+  /**
+   * Stop polling and forget previous samples.
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+    this.lastSamples.clear();
+  }
+
+  /**
+   * Collect a stats snapshot of everything the call currently sends and receives.
+   */
+  async collect(): Promise<CallStats> {
+    const timestamp = Date.now();
+    const sampled = new Set<string>();
+
+    const sample = async (
+      key: string,
+      direction: 'send' | 'recv',
+      source: { getStats(): Promise<RTCStatsReport> }
+    ): Promise<MediaStats> => {
+      sampled.add(key);
+      const stats = normalizeStats(await source.getStats());
+      stats.bitrate = this.bitrate(
+        key,
+        (direction === 'send' ? stats.bytesSent : stats.bytesReceived) ?? 0,
+        timestamp
+      );
+      return stats;
+    };
+
+    const sendTransport = this.deviceManager.sendTransportInstance;
+    const recvTransport = this.deviceManager.recvTransportInstance;
+
+    const [send, recv, producers, consumers] = await Promise.all([
+      sendTransport && sample(`transport:${sendTransport.id}`, 'send', sendTransport),
+      recvTransport && sample(`transport:${recvTransport.id}`, 'recv', recvTransport),
+      Promise.all(
+        this.mediaManager.localProducers.map(async ({ producer, kind, source }) => ({
+          producerId: producer.id,
+          kind,
+          source,
+          ...(await sample(`producer:${producer.id}`, 'send', producer)),
+        }))
+      ),
+      Promise.all(
+        this.mediaManager.remoteConsumerList.map(
+          async ({ consumer, producerId, userId, kind }) => ({
+            producerId,
+            userId,
+            kind,
+            ...(await sample(`consumer:${consumer.id}`, 'recv', consumer)),
+          })
+        )
+      ),
+    ]);
+
+    // Forget producers and consumers that are gone
+    for (const key of this.lastSamples.keys()) {
+      if (!sampled.has(key)) {
+        this.lastSamples.delete(key);
+      }
+    }
+
+    return { timestamp, send, recv, producers, consumers };
+  }
+
+  /**
+   * Derive bits per second from the byte counter of the previous sample.
+   */
+  private bitrate(key: string, bytes: number, timestamp: number): number | undefined {
+    const previous = this.lastSamples.get(key);
+    this.lastSamples.set(key, { bytes, timestamp });
+
+    if (!previous || timestamp <= previous.timestamp || bytes < previous.bytes) {
+      return undefined;
+    }
+    return Math.round(((bytes - previous.bytes) * 8 * 1000) / (timestamp - previous.timestamp));
+  }
+
+  /**
+   * Collect and emit stats, skipping the tick if the previous poll is still running.
+   */
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+
+    this.polling = true;
+    try {
+      this.emit('statsUpdated', await this.collect());
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error('[StatsManager] Failed to collect stats:', errorMessage);
+    } finally {
+      this.polling = false;
+    }
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  AudioOptions,
+  DEFAULT_CLIENT_OPTIONS,
+  OutboundPolicy,
+  ResolvedClientOptions,
+  StartAudioOptions,
+  StartVideoOptions,
+  VideoCallClientOptions,
+  VideoOptions,
+} from '../types/options';
+
+/**
+ * Merge overrides into defaults, ignoring fields explicitly set to undefined.
+ */
+function withDefaults<T extends object>(defaults: T, overrides: Partial<T> = {}): T {
+  const result = { ...defaults };
+  for (const key of Object.keys(overrides) as Array<keyof T>) {
+    const value = overrides[key];
+    if (value !== undefined) {
+      result[key] = value as T[keyof T];
+    }
+  }
+  return result;
+}
+
+function assertNonNegativeInteger(value: number, name: string): void {
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid option '${name}': expected a non-negative integer, got ${value}`);
+  }
+}
+
+function assertPositiveNumber(value: number, name: string): void {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0) {
+    throw new Error(`Invalid option '${name}': expected a positive number, got ${value}`);
+  }
+}
+
+const OUTBOUND_POLICIES: OutboundPolicy[] = ['drop', 'coalesce', 'replay'];
+
+/**
+ * Apply and validate video overrides on top of base video settings.
+ */
+export function resolveVideoOptions(
+  base: VideoOptions,
+  overrides: StartVideoOptions = {}
+): VideoOptions {
+  const video = withDefaults(base, overrides);
+
+  if (!Array.isArray(video.encodings) || video.encodings.length === 0) {
+    throw new Error("Invalid option 'video.encodings': expected at least one encoding");
+  }
+  video.encodings.forEach((encoding, index) => {
+    assertPositiveNumber(encoding.maxBitrate, `video.encodings[${index}].maxBitrate`);
+    if (encoding.scaleResolutionDownBy !== undefined && encoding.scaleResolutionDownBy < 1) {
+      throw new Error(
+        `Invalid option 'video.encodings[${index}].scaleResolutionDownBy': expected a value >= 1`
+      );
+    }
+  });
+
+  return video;
+}
+
+/**
+ * Apply and validate audio overrides on top of base audio settings.
+ */
+export function resolveAudioOptions(
+  base: AudioOptions,
+  overrides: StartAudioOptions = {}
+): AudioOptions {
+  return withDefaults(base, overrides);
+}
+
+/**
+ * Apply defaults to client options and validate the result.
+ * Throws on invalid values so misconfiguration surfaces at construction time.
+ */
+export function resolveClientOptions(options: VideoCallClientOptions = {}): ResolvedClientOptions {
+  const reconnection = withDefaults(DEFAULT_CLIENT_OPTIONS.reconnection, options.reconnection);
+  assertNonNegativeInteger(reconnection.maxAttempts, 'reconnection.maxAttempts');
+  assertNonNegativeInteger(reconnection.baseDelay, 'reconnection.baseDelay');
+  assertPositiveNumber(reconnection.connectTimeout, 'reconnection.connectTimeout');
+
+  const heartbeat = withDefaults(DEFAULT_CLIENT_OPTIONS.heartbeat, options.heartbeat);
+  assertNonNegativeInteger(heartbeat.interval, 'heartbeat.interval');
+  assertNonNegativeInteger(heartbeat.maxMissed, 'heartbeat.maxMissed');
+  assertPositiveNumber(heartbeat.maxMissed, 'heartbeat.maxMissed');
+
+  const outboundBuffer = withDefaults(DEFAULT_CLIENT_OPTIONS.outboundBuffer, {
+    ...options.outboundBuffer,
+    policies: {
+      ...DEFAULT_CLIENT_OPTIONS.outboundBuffer.policies,
+      ...options.outboundBuffer?.policies,
+    },
+  });
+  assertNonNegativeInteger(outboundBuffer.maxMessages, 'outboundBuffer.maxMessages');
+  assertPositiveNumber(outboundBuffer.maxAge, 'outboundBuffer.maxAge');
+  for (const [type, policy] of Object.entries(outboundBuffer.policies)) {
+    if (!OUTBOUND_POLICIES.includes(policy)) {
+      throw new Error(
+        `Invalid option 'outboundBuffer.policies.${type}': expected one of ${OUTBOUND_POLICIES.join(', ')}, got ${policy}`
+      );
+    }
+  }
+
+  const requestTimeout = options.requestTimeout ?? DEFAULT_CLIENT_OPTIONS.requestTimeout;
+  assertPositiveNumber(requestTimeout, 'requestTimeout');
+
+  const statsInterval = options.statsInterval ?? DEFAULT_CLIENT_OPTIONS.statsInterval;
+  assertNonNegativeInteger(statsInterval, 'statsInterval');
+
+  const audioLevelInterval =
+    options.audioLevelInterval ?? DEFAULT_CLIENT_OPTIONS.audioLevelInterval;
+  assertNonNegativeInteger(audioLevelInterval, 'audioLevelInterval');
+
+  if (options.tokenProvider !== undefined && typeof options.tokenProvider !== 'function') {
+    throw new Error("Invalid option 'tokenProvider': expected a function");
+  }
+
+  if (options.transport !== undefined && typeof options.transport !== 'function') {
+    throw new Error("Invalid option 'transport': expected a function");
+  }
+
+  return {
+    reconnection,
+    heartbeat,
+    outboundBuffer,
+    requestTimeout,
+    statsInterval,
+    audioLevelInterval,
+    tokenProvider: options.tokenProvider,
+    transport: options.transport,
+    video: resolveVideoOptions(DEFAULT_CLIENT_OPTIONS.video, options.video),
+    audio: resolveAudioOptions(DEFAULT_CLIENT_OPTIONS.audio, options.audio),
+  };
+}
@@ -0,0 +1,72 @@
+import {
+  SignalingTransport,
+  SignalingTransportListener,
+  SignalingTransportState,
+} from '../../types/transport';
+
+/**
+ * Signaling transport over the WebSocket built into browsers
+ */
+export class BrowserWebSocketTransport implements SignalingTransport {
+  private url: string;
+  private socket?: WebSocket;
+  private listener?: SignalingTransportListener;
+  private currentState: SignalingTransportState = 'connecting';
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(listener: SignalingTransportListener): void {
+    this.listener = listener;
+    this.socket = new globalThis.WebSocket(this.url);
+
+    this.socket.onopen = () => {
+      this.currentState = 'open';
+      listener.onOpen();
+    };
+    this.socket.onmessage = event => {
+      if (typeof event.data === 'string') {
+        listener.onMessage(event.data);
+      }
+    };
+    // Browsers do not say what went wrong
+    this.socket.onerror = () => listener.onError(new Error(`WebSocket error on ${this.url}`));
+    this.socket.onclose = () => this.handleClose();
+  }
+
+  send(data: string): void {
+    this.socket?.send(data);
+  }
+
+  close(): void {
+    this.socket?.close();
+  }
+
+  /**
+   * Browsers cannot abort a socket, so stop listening to it and report the close right away.
+   */
+  terminate(): void {
+    if (!this.socket) {
+      return;
+    }
+    this.socket.onopen = null;
+    this.socket.onmessage = null;
+    this.socket.onerror = null;
+    this.socket.onclose = null;
+    this.socket.close();
+    this.handleClose();
+  }
+
+  get state(): SignalingTransportState {
+    return this.currentState;
+  }
+
+  private handleClose(): void {
+    if (this.currentState === 'closed') {
+      return;
+    }
+    this.currentState = 'closed';
+    this.listener?.onClose();
+  }
+}
@@ -0,0 +1,87 @@
+import {
+  LoopbackLink,
+  LoopbackServer,
+  SignalingTransport,
+  SignalingTransportListener,
+  SignalingTransportState,
+} from '../../types/transport';
+
+// WebSocket ready states the server checks before sending
+const OPEN = 1;
+const CLOSED = 3;
+
+/**
+ * Signaling transport connected in memory to a server in the same process, e.g. in tests.
+ * Delivers messages asynchronously and in order both ways, like a socket would.
+ */
+export class LoopbackTransport implements SignalingTransport {
+  private server: LoopbackServer;
+  private link?: LoopbackLink;
+  private listener?: SignalingTransportListener;
+  private currentState: SignalingTransportState = 'connecting';
+
+  constructor(server: LoopbackServer) {
+    this.server = server;
+  }
+
+  connect(listener: SignalingTransportListener): void {
+    this.listener = listener;
+
+    setTimeout(() => {
+      if (this.currentState !== 'connecting') {
+        return;
+      }
+      const isOpen = () => this.currentState === 'open';
+      this.link = this.server.acceptLoopback({
+        get readyState() {
+          return isOpen() ? OPEN : CLOSED;
+        },
+        send: data => this.receive(data),
+        terminate: () => this.terminate(),
+      });
+      this.currentState = 'open';
+      listener.onOpen();
+    });
+  }
+
+  send(data: string): void {
+    const link = this.link;
+    if (this.currentState !== 'open' || !link) {
+      throw new Error('Loopback transport is not open');
+    }
+    setTimeout(() => link.receive(data));
+  }
+
+  close(): void {
+    this.terminate();
+  }
+
+  /**
+   * Disconnect from the server; both sides learn about it asynchronously.
+   */
+  terminate(): void {
+    if (this.currentState === 'closed') {
+      return;
+    }
+    this.currentState = 'closed';
+    const link = this.link;
+    this.link = undefined;
+
+    setTimeout(() => {
+      link?.disconnect();
+      this.listener?.onClose();
+    });
+  }
+
+  get state(): SignalingTransportState {
+    return this.currentState;
+  }
+
+  private receive(data: string): void {
+    setTimeout(() => {
+      if (this.currentState === 'open') {
+        this.listener?.onMessage(data);
+      }
+    });
+  }
+}
@@ -0,0 +1,92 @@
+import type WebSocket from 'ws';
+import {
+  SignalingTransport,
+  SignalingTransportListener,
+  SignalingTransportState,
+} from '../../types/transport';
+
+// The ws constructor once the package has loaded
+let WebSocketClass: typeof WebSocket | undefined;
+
+/**
+ * Signaling transport over the `ws` package, the default in Node.js.
+ * The package is loaded on connect, so browser bundles that use another transport leave it out.
+ */
+export class WebSocketTransport implements SignalingTransport {
+  /**
+   * Load the `ws` package ahead of time so later connections open without waiting for it
+   */
+  static async preload(): Promise<void> {
+    WebSocketClass ??= (await import('ws')).default;
+  }
+
+  private url: string;
+  private socket?: WebSocket;
+  private currentState: SignalingTransportState = 'connecting';
+
+  constructor(url: string) {
+    this.url = url;
+  }
+
+  connect(listener: SignalingTransportListener): void {
+    if (WebSocketClass) {
+      this.open(new WebSocketClass(this.url), listener);
+      return;
+    }
+
+    WebSocketTransport.preload().then(
+      () => {
+        // Closed while the package was loading
+        if (this.currentState === 'closed') {
+          listener.onClose();
+          return;
+        }
+        this.open(new WebSocketClass!(this.url), listener);
+      },
+      error => {
+        this.currentState = 'closed';
+        listener.onError(error instanceof Error ? error : new Error(String(error)));
+        listener.onClose();
+      }
+    );
+  }
+
+  send(data: string): void {
+    this.socket?.send(data);
+  }
+
+  close(): void {
+    if (this.socket) {
+      this.socket.close();
+    } else {
+      this.currentState = 'closed';
+    }
+  }
+
+  terminate(): void {
+    if (this.socket) {
+      this.socket.terminate();
+    } else {
+      this.currentState = 'closed';
+    }
+  }
+
+  get state(): SignalingTransportState {
+    return this.currentState;
+  }
+
+  private open(socket: WebSocket, listener: SignalingTransportListener): void {
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.currentState = 'open';
+      listener.onOpen();
+    });
+    socket.on('message', data => listener.onMessage(data.toString()));
+    socket.on('error', error => listener.onError(error));
+    socket.on('close', () => {
+      this.currentState = 'closed';
+      listener.onClose();
+    });
+  }
+}
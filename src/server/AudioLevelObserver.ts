@@ -0,0 +1,68 @@
+import { AudioLevel } from '../types/signaling';
+
+/**
+ * Source of per-room audio levels used to detect the active speaker.
+ * The server samples it once per observation interval; an implementation backed by a
+ * media server (e.g. mediasoup's AudioLevelObserver) can ignore the client reports.
+ */
+export interface AudioLevelObserver {
+  /**
+   * Record a level a peer reported for its own microphone.
+   */
+  report(roomId: string, userId: string, level: number): void;
+
+  /**
+   * Forget a peer that left its room.
+   */
+  removePeer(roomId: string, userId: string): void;
+
+  /**
+   * Levels of the participants speaking since the previous call, loudest first.
+   */
+  collect(roomId: string): AudioLevel[];
+}
+
+// Reported levels below this are treated as silence
+const DEFAULT_SILENCE_THRESHOLD = 0.05;
+
+/**
+ * Default observer that relies on the levels clients measure and report themselves.
+ * Keeps the peak level of each peer within an observation interval.
+ */
+export class ReportedAudioLevelObserver implements AudioLevelObserver {
+  private peaks = new Map<string, Map<string, number>>();
+  private threshold: number;
+
+  constructor(threshold = DEFAULT_SILENCE_THRESHOLD) {
+    this.threshold = threshold;
+  }
+
+  report(roomId: string, userId: string, level: number): void {
+    let room = this.peaks.get(roomId);
+    if (!room) {
+      room = new Map();
+      this.peaks.set(roomId, room);
+    }
+    room.set(userId, Math.max(room.get(userId) ?? 0, level));
+  }
+
+  removePeer(roomId: string, userId: string): void {
+    const room = this.peaks.get(roomId);
+    room?.delete(userId);
+    if (room?.size === 0) {
+      this.peaks.delete(roomId);
+    }
+  }
+
+  collect(roomId: string): AudioLevel[] {
+    const room = this.peaks.get(roomId);
+    if (!room) {
+      return [];
+    }
+    this.peaks.delete(roomId);
+
+    return Array.from(room, ([userId, level]) => ({ userId, level }))
+      .filter(({ level }) => level >= this.threshold)
+      .sort((a, b) => b.level - a.level);
+  }
+}
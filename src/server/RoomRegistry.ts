@@ -0,0 +1,408 @@
+import { randomUUID } from 'crypto';
+import WebSocket from 'ws';
+import { MediaKind } from 'mediasoup-client/lib/RtpParameters';
+import { SctpStreamParameters } from 'mediasoup-client/lib/SctpParameters';
+import {
+  ChatMessage,
+  ParticipantRole,
+  PeerInfo,
+  ServerToClientMessage,
+  VideoSource,
+} from '../types/signaling';
+import { ClientConnection } from '../types/transport';
+
+/**
+ * Transport created by a peer
+ */
+export interface ServerTransport {
+  id: string;
+  consuming: boolean;
+  // Next SCTP stream id handed to a data consumer on this transport
+  nextSctpStreamId: number;
+}
+
+/**
+ * Producer created by a peer on one of its send transports
+ */
+export interface ServerProducer {
+  id: string;
+  kind: MediaKind;
+  source?: VideoSource;
+  transportId: string;
+  paused: boolean;
+  // Number of simulcast encodings the producer sends
+  spatialLayers: number;
+  appData?: Record<string, unknown>;
+}
+
+/**
+ * Data producer (SCTP data channel) created by a peer on one of its send transports
+ */
+export interface ServerDataProducer {
+  id: string;
+  label: string;
+  protocol?: string;
+  transportId: string;
+  sctpStreamParameters: SctpStreamParameters;
+}
+
+/**
+ * Consumer created by a peer for a producer in its room
+ */
+export interface ServerConsumer {
+  id: string;
+  producerId: string;
+  kind: MediaKind;
+  spatialLayer: number;
+  temporalLayer: number;
+}
+
+/**
+ * Participant of a room together with the media state it owns
+ */
+export interface Peer {
+  userId: string;
+  roomId: string;
+  role: ParticipantRole;
+  socket: ClientConnection;
+  // Secret that lets a new connection take this peer over
+  sessionId: string;
+  transports: Map<string, ServerTransport>;
+  producers: Map<string, ServerProducer>;
+  consumers: Map<string, ServerConsumer>;
+  dataProducers: Map<string, ServerDataProducer>;
+}
+
+/**
+ * Participant waiting in a room's lobby for a host to admit it
+ */
+export interface LobbyGuest {
+  userId: string;
+  roomId: string;
+  role: ParticipantRole;
+  socket: ClientConnection;
+}
+
+/**
+ * Room with its current participants keyed by userId
+ */
+export interface Room {
+  id: string;
+  peers: Map<string, Peer>;
+  // Most recent dominant speaker, kept through silence
+  activeSpeaker?: string;
+  // Recent chat messages, oldest first
+  chatHistory: ChatMessage[];
+  // Everyone admitted to the room and their role, kept so reconnecting peers keep both
+  members: Map<string, ParticipantRole>;
+  // Whether joins are limited to members
+  locked: boolean;
+  // Whether hosts admit every participant who is not a member yet
+  lobbyEnabled: boolean;
+  // Participants waiting for admission keyed by userId, oldest first
+  lobby: Map<string, LobbyGuest>;
+}
+
+/**
+ * In-memory registry of rooms, peers, their transports and producers.
+ */
+export class RoomRegistry {
+  private rooms = new Map<string, Room>();
+  private peersBySocket = new Map<ClientConnection, Peer>();
+  private guestsBySocket = new Map<ClientConnection, LobbyGuest>();
+  private peersBySession = new Map<string, Peer>();
+
+  // Whether new rooms start with the lobby enabled
+  constructor(private lobbyByDefault = false) {}
+
+  /**
+   * Get a room, creating it if nobody is in it yet.
+   */
+  openRoom(roomId: string): Room {
+    let room = this.rooms.get(roomId);
+    if (!room) {
+      room = {
+        id: roomId,
+        peers: new Map(),
+        chatHistory: [],
+        members: new Map(),
+        locked: false,
+        lobbyEnabled: this.lobbyByDefault,
+        lobby: new Map(),
+      };
+      this.rooms.set(roomId, room);
+    }
+    return room;
+  }
+
+  /**
+   * Role of a user joining a room.
+   * Without a granted role, members keep their previous role and the first member hosts.
+   */
+  roleFor(room: Room, userId: string, granted?: ParticipantRole): ParticipantRole {
+    return granted ?? room.members.get(userId) ?? (room.members.size === 0 ? 'host' : 'attendee');
+  }
+
+  /**
+   * Add a peer for the socket to a room as a member, creating the room on first join.
+   */
+  join(roomId: string, userId: string, socket: ClientConnection, role?: ParticipantRole): Peer {
+    const room = this.openRoom(roomId);
+    const peerRole = this.roleFor(room, userId, role);
+    room.members.set(userId, peerRole);
+
+    const peer: Peer = {
+      userId,
+      roomId,
+      role: peerRole,
+      socket,
+      sessionId: randomUUID(),
+      transports: new Map(),
+      producers: new Map(),
+      consumers: new Map(),
+      dataProducers: new Map(),
+    };
+
+    room.peers.set(userId, peer);
+    this.peersBySocket.set(socket, peer);
+    this.peersBySession.set(peer.sessionId, peer);
+    return peer;
+  }
+
+  /**
+   * Move a peer to a new socket, keeping its room, transports and producers.
+   */
+  rebind(peer: Peer, socket: ClientConnection): void {
+    this.peersBySocket.delete(peer.socket);
+    peer.socket = socket;
+    this.peersBySocket.set(socket, peer);
+  }
+
+  /**
+   * Remove the peer bound to a socket. Empty rooms are discarded.
+   */
+  remove(socket: ClientConnection): Peer | undefined {
+    const peer = this.peersBySocket.get(socket);
+    if (!peer) {
+      return undefined;
+    }
+
+    this.peersBySocket.delete(socket);
+    this.peersBySession.delete(peer.sessionId);
+
+    const room = this.rooms.get(peer.roomId);
+    // A newer connection may have taken over the same userId
+    if (room && room.peers.get(peer.userId) === peer) {
+      room.peers.delete(peer.userId);
+      this.discardIfEmpty(room);
+    }
+
+    return peer;
+  }
+
+  /**
+   * Put the socket in a room's lobby, replacing an earlier request of the same user.
+   */
+  waitInLobby(
+    room: Room,
+    userId: string,
+    socket: ClientConnection,
+    role: ParticipantRole
+  ): LobbyGuest {
+    const previous = room.lobby.get(userId);
+    if (previous) {
+      this.guestsBySocket.delete(previous.socket);
+    }
+
+    const guest: LobbyGuest = { userId, roomId: room.id, role, socket };
+    room.lobby.set(userId, guest);
+    this.guestsBySocket.set(socket, guest);
+    return guest;
+  }
+
+  /**
+   * Take the socket out of the lobby it waits in. Empty rooms are discarded.
+   */
+  leaveLobby(socket: ClientConnection): LobbyGuest | undefined {
+    const guest = this.guestsBySocket.get(socket);
+    if (!guest) {
+      return undefined;
+    }
+
+    this.guestsBySocket.delete(socket);
+
+    const room = this.rooms.get(guest.roomId);
+    if (room && room.lobby.get(guest.userId) === guest) {
+      room.lobby.delete(guest.userId);
+      this.discardIfEmpty(room);
+    }
+
+    return guest;
+  }
+
+  /**
+   * Get the lobby guest bound to a socket.
+   */
+  getGuest(socket: ClientConnection): LobbyGuest | undefined {
+    return this.guestsBySocket.get(socket);
+  }
+
+  /**
+   * Get the peer bound to a socket.
+   */
+  getPeer(socket: ClientConnection): Peer | undefined {
+    return this.peersBySocket.get(socket);
+  }
+
+  /**
+   * Get the peer a session id was issued to.
+   */
+  getSession(sessionId: string): Peer | undefined {
+    return this.peersBySession.get(sessionId);
+  }
+
+  /**
+   * Get a room by id.
+   */
+  getRoom(roomId: string): Room | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  /**
+   * Get every room that currently has participants.
+   */
+  allRooms(): Room[] {
+    return Array.from(this.rooms.values());
+  }
+
+  /**
+   * Get every other peer in the same room.
+   */
+  otherPeers(peer: Peer): Peer[] {
+    const room = this.rooms.get(peer.roomId);
+    if (!room) {
+      return [];
+    }
+    return Array.from(room.peers.values()).filter(other => other !== peer);
+  }
+
+  /**
+   * Find a producer within a room along with the peer that owns it.
+   */
+  findProducer(
+    roomId: string,
+    producerId: string
+  ): { peer: Peer; producer: ServerProducer } | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return undefined;
+    }
+
+    for (const peer of room.peers.values()) {
+      const producer = peer.producers.get(producerId);
+      if (producer) {
+        return { peer, producer };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Find a data producer within a room along with the peer that owns it.
+   */
+  findDataProducer(
+    roomId: string,
+    dataProducerId: string
+  ): { peer: Peer; dataProducer: ServerDataProducer } | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return undefined;
+    }
+
+    for (const peer of room.peers.values()) {
+      const dataProducer = peer.dataProducers.get(dataProducerId);
+      if (dataProducer) {
+        return { peer, dataProducer };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Drop every consumer of a closed producer within a room.
+   */
+  removeConsumersOf(roomId: string, producerId: string): void {
+    const room = this.rooms.get(roomId);
+    if (!room) {
+      return;
+    }
+
+    for (const peer of room.peers.values()) {
+      for (const consumer of peer.consumers.values()) {
+        if (consumer.producerId === producerId) {
+          peer.consumers.delete(consumer.id);
+        }
+      }
+    }
+  }
+
+  /**
+   * Describe the other peers in a room and their producers for join responses.
+   */
+  describePeers(peer: Peer): PeerInfo[] {
+    return this.otherPeers(peer).map(other => ({
+      userId: other.userId,
+      role: other.role,
+      producers: Array.from(other.producers.values()).map(producer => ({
+        id: producer.id,
+        kind: producer.kind,
+        source: producer.source,
+      })),
+      dataProducers: Array.from(other.dataProducers.values()).map(dataProducer => ({
+        id: dataProducer.id,
+        label: dataProducer.label,
+        protocol: dataProducer.protocol,
+      })),
+    }));
+  }
+
+  /**
+   * Send a message to every other peer in the sender's room.
+   */
+  broadcast(sender: Peer, message: ServerToClientMessage): void {
+    this.sendAll(this.otherPeers(sender), message);
+  }
+
+  /**
+   * Send a message to every peer in a room.
+   */
+  broadcastToRoom(room: Room, message: ServerToClientMessage): void {
+    this.sendAll(Array.from(room.peers.values()), message);
+  }
+
+  /**
+   * Send a message to the hosts of a room, except the given peer.
+   */
+  sendToHosts(room: Room, message: ServerToClientMessage, except?: Peer): void {
+    const hosts = Array.from(room.peers.values()).filter(
+      peer => peer.role === 'host' && peer !== except
+    );
+    this.sendAll(hosts, message);
+  }
+
+  // Rooms stay while someone is in them or waiting to be admitted
+  private discardIfEmpty(room: Room): void {
+    if (room.peers.size === 0 && room.lobby.size === 0) {
+      this.rooms.delete(room.id);
+    }
+  }
+
+  private sendAll(peers: Peer[], message: ServerToClientMessage): void {
+    const payload = JSON.stringify(message);
+    for (const peer of peers) {
+      if (peer.socket.readyState === WebSocket.OPEN) {
+        peer.socket.send(payload);
+      }
+    }
+  }
+}
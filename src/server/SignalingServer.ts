@@ -0,0 +1,1198 @@
+import WebSocket, { WebSocketServer } from 'ws';
+import {
+  AuthTokenClaims,
+  ClientToServerMessage,
+  ServerToClientMessage,
+  JoinRoomMessage,
+  CreateWebRtcTransportMessage,
+  ConnectTransportMessage,
+  ProduceMessage,
+  ConsumeMessage,
+  ProduceDataMessage,
+  ConsumeDataMessage,
+  CloseProducerMessage,
+  PauseProducerMessage,
+  ResumeProducerMessage,
+  ReportAudioLevelMessage,
+  RestartIceMessage,
+  SendChatMessage,
+  ChatMessage,
+  MuteParticipantMessage,
+  RemoveParticipantMessage,
+  LockRoomMessage,
+  SetLobbyMessage,
+  EndCallForAllMessage,
+  AdmitMessage,
+  DenyMessage,
+  ResumeMessage,
+  ParticipantRole,
+  SetConsumerPreferredLayersMessage,
+  VideoSource,
+} from '../types/signaling';
+import { ClientConnection, LoopbackLink, LoopbackServer } from '../types/transport';
+import { FAKE_RTP_CAPABILITIES, FAKE_TRANSPORT_PARAMS, createFakeRtpParameters } from './fakeMedia';
+import { AudioLevelObserver, ReportedAudioLevelObserver } from './AudioLevelObserver';
+import { AuthError, AuthOptions, verifyToken } from './auth';
+import { Peer, RoomRegistry } from './RoomRegistry';
+
+/**
+ * Signaling server configuration
+ */
+export interface SignalingServerOptions {
+  port?: number;
+  // Source of audio levels for active speaker detection, client reports by default
+  audioLevelObserver?: AudioLevelObserver;
+  // Interval in ms between audio level observations, 0 disables them
+  audioLevelInterval?: number;
+  // Chat messages kept per room and replayed to joining peers
+  chatHistorySize?: number;
+  // Require joins to carry a signed token; userIds are trusted as is when omitted
+  auth?: AuthOptions;
+  // Start rooms with the lobby enabled, so hosts admit everyone who is not a member yet
+  lobby?: boolean;
+  // Time in ms without a ping after which a heartbeating client is dropped, 0 disables it
+  heartbeatTimeout?: number;
+  // Time in ms a disconnected peer is kept so its session can resume, 0 releases it right away
+  sessionGracePeriod?: number;
+}
+
+const DEFAULT_PORT = 3001;
+const DEFAULT_AUDIO_LEVEL_INTERVAL = 500;
+const DEFAULT_CHAT_HISTORY_SIZE = 100;
+const DEFAULT_HEARTBEAT_TIMEOUT = 30000;
+const DEFAULT_SESSION_GRACE_PERIOD = 10000;
+const MAX_CHAT_MESSAGE_LENGTH = 4000;
+
+// Temporal layers per simulcast encoding (L1T3)
+const MAX_TEMPORAL_LAYER = 2;
+
+type ModerationMessage =
+  | MuteParticipantMessage
+  | RemoveParticipantMessage
+  | LockRoomMessage
+  | SetLobbyMessage
+  | EndCallForAllMessage
+  | AdmitMessage
+  | DenyMessage;
+
+// Roles allowed to send each moderator request
+const MODERATOR_ROLES: Record<ModerationMessage['type'], ParticipantRole[]> = {
+  muteParticipant: ['host', 'presenter'],
+  removeParticipant: ['host'],
+  lockRoom: ['host'],
+  setLobby: ['host'],
+  endCallForAll: ['host'],
+  admit: ['host'],
+  deny: ['host'],
+};
+
+/**
+ * Type guard to check if message is a valid client message
+ */
+function isValidClientMessage(data: unknown): data is ClientToServerMessage {
+  return (
+    typeof data === 'object' &&
+    data !== null &&
+    'type' in data &&
+    typeof (data as { type: unknown }).type === 'string'
+  );
+}
+
+/**
+ * Read the source a client tagged a video producer with, defaulting to the camera
+ */
+function videoSource(appData?: Record<string, unknown>): VideoSource {
+  return appData?.source === 'screen' ? 'screen' : 'camera';
+}
+
+/**
+ * Check if a chat message is visible to a user: broadcasts, and direct messages they are part of
+ */
+function isVisibleTo(message: ChatMessage, userId: string): boolean {
+  return message.to === undefined || message.to === userId || message.from === userId;
+}
+
+/**
+ * Send a typed message to a client
+ */
+function send(ws: ClientConnection, message: ServerToClientMessage): void {
+  ws.send(JSON.stringify(message));
+}
+
+/**
+ * Send an error message to a client, correlated with the failed request if any
+ */
+function sendError(ws: ClientConnection, message: string, code: string, requestId?: string): void {
+  send(ws, { type: 'error', message, code, requestId });
+}
+
+/**
+ * WebSocket signaling server with in-memory room state.
+ * Tracks peers, their transports and producers, and notifies room members of changes.
+ * Clients can also connect in memory through acceptLoopback().
+ */
+export class SignalingServer implements LoopbackServer {
+  private wss: WebSocketServer;
+  private registry: RoomRegistry;
+  private idCounter = 0;
+  private audioLevelObserver: AudioLevelObserver;
+  private audioLevelTimer?: ReturnType<typeof setInterval>;
+  private chatHistorySize: number;
+  private auth?: AuthOptions;
+  // Last ping of every client that sends them
+  private heartbeats = new Map<ClientConnection, number>();
+  private heartbeatTimeout: number;
+  private heartbeatTimer?: ReturnType<typeof setInterval>;
+  // Disconnected peers waiting to be resumed, released when their timer fires
+  private heldPeers = new Map<Peer, ReturnType<typeof setTimeout>>();
+  private sessionGracePeriod: number;
+  private loopbackClients = new Set<ClientConnection>();
+
+  constructor(options: SignalingServerOptions = {}) {
+    this.wss = new WebSocketServer({ port: options.port ?? DEFAULT_PORT });
+    this.wss.on('connection', (ws: WebSocket) => this.handleConnection(ws));
+
+    this.registry = new RoomRegistry(options.lobby);
+    this.chatHistorySize = options.chatHistorySize ?? DEFAULT_CHAT_HISTORY_SIZE;
+    this.auth = options.auth;
+    this.audioLevelObserver = options.audioLevelObserver ?? new ReportedAudioLevelObserver();
+    const audioLevelInterval = options.audioLevelInterval ?? DEFAULT_AUDIO_LEVEL_INTERVAL;
+    if (audioLevelInterval > 0) {
+      this.audioLevelTimer = setInterval(() => this.observeAudioLevels(), audioLevelInterval);
+    }
+    this.sessionGracePeriod = options.sessionGracePeriod ?? DEFAULT_SESSION_GRACE_PERIOD;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? DEFAULT_HEARTBEAT_TIMEOUT;
+    if (this.heartbeatTimeout > 0) {
+      this.heartbeatTimer = setInterval(
+        () => this.evictSilentClients(),
+        Math.ceil(this.heartbeatTimeout / 2)
+      );
+    }
+  }
+
+  /**
+   * Resolve with the bound port once the server accepts connections.
+   */
+  whenListening(): Promise<number> {
+    return new Promise(resolve => {
+      if (this.wss.address()) {
+        return resolve(this.port);
+      }
+      this.wss.once('listening', () => resolve(this.port));
+    });
+  }
+
+  /**
+   * Port the server is bound to.
+   */
+  get port(): number {
+    const address = this.wss.address();
+    return typeof address === 'object' && address ? address.port : DEFAULT_PORT;
+  }
+
+  /**
+   * Disconnect all clients and stop accepting connections.
+   */
+  close(): Promise<void> {
+    clearInterval(this.audioLevelTimer);
+    clearInterval(this.heartbeatTimer);
+    for (const timer of this.heldPeers.values()) {
+      clearTimeout(timer);
+    }
+    this.heldPeers.clear();
+    for (const client of [...this.wss.clients, ...this.loopbackClients]) {
+      client.terminate();
+    }
+    return new Promise(resolve => this.wss.close(() => resolve()));
+  }
+
+  /**
+   * Serve a client connected in memory, e.g. through a LoopbackTransport in tests
+   */
+  acceptLoopback(client: ClientConnection): LoopbackLink {
+    console.log('New loopback client connected');
+    this.loopbackClients.add(client);
+
+    return {
+      receive: data => this.handleRawMessage(client, data),
+      disconnect: () => {
+        if (this.loopbackClients.delete(client)) {
+          this.handleDisconnect(client);
+        }
+      },
+    };
+  }
+
+  /**
+   * Wire up message handling for a newly connected client
+   */
+  private handleConnection(ws: WebSocket): void {
+    console.log('New client connected');
+
+    ws.on('message', (msg: WebSocket.Data) => this.handleRawMessage(ws, msg.toString()));
+    ws.on('close', () => this.handleDisconnect(ws));
+
+    ws.on('error', (error: Error) => {
+      console.error('WebSocket error:', error);
+    });
+  }
+
+  /**
+   * Parse and validate a raw client message, then dispatch it
+   */
+  private handleRawMessage(ws: ClientConnection, raw: string): void {
+    let data: unknown;
+    try {
+      data = JSON.parse(raw);
+    } catch (error) {
+      console.error('Error parsing message:', error);
+      sendError(ws, 'Failed to parse message', 'PARSE_ERROR');
+      return;
+    }
+
+    if (!isValidClientMessage(data)) {
+      console.error('Invalid message format:', data);
+      sendError(ws, 'Invalid message format', 'INVALID_MESSAGE');
+      return;
+    }
+
+    console.log(`Received: ${data.type}`);
+    try {
+      this.handleMessage(ws, data);
+    } catch (error) {
+      console.error(`Error handling ${data.type}:`, error);
+      sendError(ws, 'Internal server error', 'INTERNAL_ERROR', data.requestId);
+    }
+  }
+
+  /**
+   * Clean up after a client whose connection went away
+   */
+  private handleDisconnect(ws: ClientConnection): void {
+    console.log('Client disconnected');
+    this.heartbeats.delete(ws);
+    this.holdPeer(ws);
+    this.leaveLobby(ws);
+  }
+
+  /**
+   * Dispatch a client message to its handler
+   */
+  private handleMessage(ws: ClientConnection, data: ClientToServerMessage): void {
+    // Heartbeats are answered whether or not the client joined a room
+    if (data.type === 'ping') {
+      this.heartbeats.set(ws, Date.now());
+      send(ws, { type: 'pong', timestamp: data.timestamp, requestId: data.requestId });
+      return;
+    }
+
+    if (data.type === 'join') {
+      this.handleJoinMessage(ws, data);
+      return;
+    }
+
+    if (data.type === 'resume') {
+      this.handleResumeMessage(ws, data);
+      return;
+    }
+
+    // Guests waiting in a lobby can only give up
+    if (data.type === 'leave' && this.registry.getGuest(ws)) {
+      this.leaveLobby(ws);
+      return;
+    }
+
+    // Every other message acts on behalf of a peer that joined a room
+    const peer = this.registry.getPeer(ws);
+    if (!peer) {
+      sendError(ws, 'Join a room first', 'NOT_IN_ROOM', data.requestId);
+      return;
+    }
+
+    switch (data.type) {
+      case 'createWebRtcTransport':
+        this.handleCreateTransportMessage(peer, data);
+        break;
+      case 'connectTransport':
+        this.handleConnectTransportMessage(peer, data);
+        break;
+      case 'produce':
+        this.handleProduceMessage(peer, data);
+        break;
+      case 'consume':
+        this.handleConsumeMessage(peer, data);
+        break;
+      case 'produceData':
+        this.handleProduceDataMessage(peer, data);
+        break;
+      case 'consumeData':
+        this.handleConsumeDataMessage(peer, data);
+        break;
+      case 'closeProducer':
+        this.handleCloseProducerMessage(peer, data);
+        break;
+      case 'pauseProducer':
+      case 'resumeProducer':
+        this.handlePauseResumeMessage(peer, data);
+        break;
+      case 'setConsumerPreferredLayers':
+        this.handleSetPreferredLayersMessage(peer, data);
+        break;
+      case 'chatMessage':
+        this.handleChatMessage(peer, data);
+        break;
+      case 'reportAudioLevel':
+        this.handleReportAudioLevelMessage(peer, data);
+        break;
+      case 'muteParticipant':
+      case 'removeParticipant':
+      case 'lockRoom':
+      case 'setLobby':
+      case 'endCallForAll':
+      case 'admit':
+      case 'deny':
+        this.handleModerationMessage(peer, data);
+        break;
+      case 'restartIce':
+        this.handleRestartIceMessage(peer, data);
+        break;
+      case 'leave':
+        this.removePeer(peer.socket);
+        break;
+      default:
+        console.log(`Unknown message type: ${(data as { type: string }).type}`);
+        sendError(
+          ws,
+          `Unknown message type: ${(data as { type: string }).type}`,
+          'UNKNOWN_MESSAGE_TYPE',
+          (data as { requestId?: string }).requestId
+        );
+    }
+  }
+
+  /**
+   * Handle join room message
+   */
+  private handleJoinMessage(ws: ClientConnection, data: JoinRoomMessage): void {
+    let claims: AuthTokenClaims | undefined;
+    try {
+      claims = this.authenticate(data);
+    } catch (error) {
+      if (!(error instanceof AuthError)) {
+        throw error;
+      }
+      console.log(`Rejected join of ${data.userId} to room ${data.roomId}: ${error.message}`);
+      sendError(ws, error.message, error.code, data.requestId);
+      return;
+    }
+
+    // Joining again on the same connection replaces the previous membership or lobby request
+    this.removePeer(ws);
+    this.leaveLobby(ws);
+
+    // Locked and lobby-enabled rooms readmit members, e.g. after a reconnection,
+    // and let hosts in; everyone else waits for a host to admit them
+    const room = this.registry.openRoom(data.roomId);
+    const role = this.registry.roleFor(room, data.userId, claims?.role);
+    if ((room.locked || room.lobbyEnabled) && !room.members.has(data.userId) && role !== 'host') {
+      this.registry.waitInLobby(room, data.userId, ws, role);
+      console.log(`${data.userId} is waiting in the lobby of room ${room.id}`);
+      send(ws, {
+        type: 'lobbyWaiting',
+        roomId: room.id,
+        userId: data.userId,
+        requestId: data.requestId,
+      });
+      this.registry.sendToHosts(room, { type: 'lobbyRequest', userId: data.userId });
+      return;
+    }
+
+    this.enterRoom(ws, data.roomId, data.userId, role, data.requestId);
+  }
+
+  /**
+   * Add a joining or admitted user to the room and confirm with the current room state
+   */
+  private enterRoom(
+    ws: ClientConnection,
+    roomId: string,
+    userId: string,
+    role: ParticipantRole,
+    requestId?: string
+  ): void {
+    // A rejoin from a new connection takes over the stale one without a leave/join pair
+    const stale = this.registry.getRoom(roomId)?.peers.get(userId);
+    if (stale) {
+      this.releasePeer(stale);
+    }
+
+    const peer = this.registry.join(roomId, userId, ws, role);
+    console.log(`${peer.userId} joined room ${peer.roomId} as ${peer.role}`);
+
+    if (!stale) {
+      this.registry.broadcast(peer, { type: 'peerJoined', userId: peer.userId, role: peer.role });
+    }
+
+    this.welcome(peer, requestId);
+  }
+
+  /**
+   * Handle a reconnecting client taking its held peer back. The room never saw it leave,
+   * so transports, producers and consumers carry on without notifying anyone
+   */
+  private handleResumeMessage(ws: ClientConnection, data: ResumeMessage): void {
+    const peer = this.registry.getSession(data.sessionId);
+    if (!peer) {
+      sendError(ws, 'Session expired or unknown', 'SESSION_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    // With tokens the resume must prove the same identity, otherwise only held peers can be taken over
+    if (this.auth) {
+      try {
+        this.authenticate({ token: data.token, roomId: peer.roomId, userId: peer.userId });
+      } catch (error) {
+        if (!(error instanceof AuthError)) {
+          throw error;
+        }
+        console.log(`Rejected resume of ${peer.userId} in room ${peer.roomId}: ${error.message}`);
+        sendError(ws, error.message, error.code, data.requestId);
+        return;
+      }
+    } else if (peer.socket !== ws && !this.heldPeers.has(peer)) {
+      sendError(ws, 'Session is still connected', 'SESSION_ACTIVE', data.requestId);
+      return;
+    }
+
+    if (peer.socket !== ws) {
+      this.removePeer(ws);
+      this.leaveLobby(ws);
+      clearTimeout(this.heldPeers.get(peer));
+      this.heldPeers.delete(peer);
+
+      // The old connection may be half-open and not noticed as closed yet
+      const previous = peer.socket;
+      this.registry.rebind(peer, ws);
+      previous.terminate();
+    }
+
+    console.log(`${peer.userId} resumed its session in room ${peer.roomId}`);
+    this.welcome(peer, data.requestId);
+  }
+
+  /**
+   * Confirm a join or resume with the current roster and the chat so far
+   */
+  private welcome(peer: Peer, requestId?: string): void {
+    const ws = peer.socket;
+    const room = this.registry.getRoom(peer.roomId);
+    send(ws, {
+      type: 'joined',
+      roomId: peer.roomId,
+      userId: peer.userId,
+      role: peer.role,
+      peers: this.registry.describePeers(peer),
+      activeSpeaker: room?.activeSpeaker,
+      chatHistory: room?.chatHistory.filter(message => isVisibleTo(message, peer.userId)),
+      locked: room?.locked,
+      lobbyEnabled: room?.lobbyEnabled,
+      sessionId: peer.sessionId,
+      requestId,
+    });
+
+    // Hosts catch up on who is already waiting
+    if (room && peer.role === 'host') {
+      for (const guest of room.lobby.values()) {
+        send(ws, { type: 'lobbyRequest', userId: guest.userId });
+      }
+    }
+
+    // Send RTP capabilities after a delay
+    setTimeout(() => {
+      if (ws.readyState === WebSocket.OPEN) {
+        send(ws, { type: 'routerRtpCapabilities', rtpCapabilities: FAKE_RTP_CAPABILITIES });
+      }
+    }, 100);
+  }
+
+  /**
+   * Verify the join or resume token against the requested room and identity.
+   * Returns undefined when the server does not require tokens.
+   */
+  private authenticate(
+    data: Pick<JoinRoomMessage, 'token' | 'roomId' | 'userId'>
+  ): AuthTokenClaims | undefined {
+    if (!this.auth) {
+      return undefined;
+    }
+
+    const claims = verifyToken(data.token, this.auth);
+    if (claims.room !== data.roomId) {
+      throw new AuthError('Token is not valid for this room', 'AUTH_INVALID');
+    }
+    if (claims.sub !== data.userId) {
+      throw new AuthError('Token is not valid for this user', 'AUTH_INVALID');
+    }
+    return claims;
+  }
+
+  /**
+   * Handle create WebRTC transport message
+   */
+  private handleCreateTransportMessage(peer: Peer, data: CreateWebRtcTransportMessage): void {
+    const transportId = this.nextId('transport');
+    peer.transports.set(transportId, {
+      id: transportId,
+      consuming: data.consuming,
+      nextSctpStreamId: 0,
+    });
+
+    send(peer.socket, {
+      type: 'webRtcTransportCreated',
+      transportId,
+      ...FAKE_TRANSPORT_PARAMS,
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Handle connect transport message
+   */
+  private handleConnectTransportMessage(peer: Peer, data: ConnectTransportMessage): void {
+    if (!peer.transports.has(data.transportId)) {
+      sendError(peer.socket, 'Transport not found', 'TRANSPORT_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    send(peer.socket, {
+      type: 'transportConnected',
+      transportId: data.transportId,
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Handle produce message and announce the producer to the rest of the room
+   */
+  private handleProduceMessage(peer: Peer, data: ProduceMessage): void {
+    const transport = peer.transports.get(data.transportId);
+    if (!transport || transport.consuming) {
+      sendError(peer.socket, 'Send transport not found', 'TRANSPORT_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const producerId = this.nextId('producer');
+    const source = data.kind === 'video' ? videoSource(data.appData) : undefined;
+    peer.producers.set(producerId, {
+      id: producerId,
+      kind: data.kind,
+      source,
+      transportId: transport.id,
+      paused: false,
+      spatialLayers: data.rtpParameters?.encodings?.length || 1,
+      appData: data.appData,
+    });
+
+    send(peer.socket, {
+      type: 'producerCreated',
+      producerId,
+      kind: data.kind,
+      requestId: data.requestId,
+    });
+
+    this.registry.broadcast(peer, {
+      type: 'newProducer',
+      producerId,
+      userId: peer.userId,
+      kind: data.kind,
+      source,
+    });
+  }
+
+  /**
+   * Handle consume message for a producer in the peer's room
+   */
+  private handleConsumeMessage(peer: Peer, data: ConsumeMessage): void {
+    const found = this.registry.findProducer(peer.roomId, data.producerId);
+    if (!found) {
+      sendError(peer.socket, 'Producer not found', 'PRODUCER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const { kind, paused, spatialLayers } = found.producer;
+    const consumerId = this.nextId('consumer');
+    // Consumers start on the highest layers until they state a preference
+    peer.consumers.set(consumerId, {
+      id: consumerId,
+      producerId: data.producerId,
+      kind,
+      spatialLayer: spatialLayers - 1,
+      temporalLayer: MAX_TEMPORAL_LAYER,
+    });
+
+    send(peer.socket, {
+      type: 'consumerCreated',
+      consumerId,
+      producerId: data.producerId,
+      kind,
+      rtpParameters: createFakeRtpParameters(kind),
+      producerPaused: paused,
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Handle produce data message and announce the data producer to the rest of the room
+   */
+  private handleProduceDataMessage(peer: Peer, data: ProduceDataMessage): void {
+    const transport = peer.transports.get(data.transportId);
+    if (!transport || transport.consuming) {
+      sendError(peer.socket, 'Send transport not found', 'TRANSPORT_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const dataProducerId = this.nextId('data-producer');
+    const label = data.label ?? '';
+    peer.dataProducers.set(dataProducerId, {
+      id: dataProducerId,
+      label,
+      protocol: data.protocol,
+      transportId: transport.id,
+      sctpStreamParameters: data.sctpStreamParameters,
+    });
+
+    send(peer.socket, {
+      type: 'dataProducerCreated',
+      dataProducerId,
+      label,
+      requestId: data.requestId,
+    });
+
+    this.registry.broadcast(peer, {
+      type: 'newDataProducer',
+      dataProducerId,
+      userId: peer.userId,
+      label,
+      protocol: data.protocol,
+    });
+  }
+
+  /**
+   * Handle consume data message for a data producer in the peer's room
+   */
+  private handleConsumeDataMessage(peer: Peer, data: ConsumeDataMessage): void {
+    const transport = peer.transports.get(data.transportId);
+    if (!transport || !transport.consuming) {
+      sendError(peer.socket, 'Receive transport not found', 'TRANSPORT_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const found = this.registry.findDataProducer(peer.roomId, data.dataProducerId);
+    if (!found) {
+      sendError(peer.socket, 'Data producer not found', 'DATA_PRODUCER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const { label, protocol, sctpStreamParameters } = found.dataProducer;
+    send(peer.socket, {
+      type: 'dataConsumerCreated',
+      dataConsumerId: this.nextId('data-consumer'),
+      dataProducerId: data.dataProducerId,
+      label,
+      protocol,
+      // Same reliability as the producer, on a stream of the receiving transport
+      sctpStreamParameters: {
+        ...sctpStreamParameters,
+        streamId: transport.nextSctpStreamId++,
+      },
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Handle close producer message and announce it to the rest of the room
+   */
+  private handleCloseProducerMessage(peer: Peer, data: CloseProducerMessage): void {
+    if (!peer.producers.delete(data.producerId)) {
+      sendError(peer.socket, 'Producer not found', 'PRODUCER_NOT_FOUND', data.requestId);
+      return;
+    }
+    this.registry.removeConsumersOf(peer.roomId, data.producerId);
+
+    send(peer.socket, {
+      type: 'producerClosed',
+      producerId: data.producerId,
+      userId: peer.userId,
+      requestId: data.requestId,
+    });
+
+    this.registry.broadcast(peer, {
+      type: 'producerClosed',
+      producerId: data.producerId,
+      userId: peer.userId,
+    });
+  }
+
+  /**
+   * Handle pause/resume of a peer's own producer and announce the mute change to the room
+   */
+  private handlePauseResumeMessage(
+    peer: Peer,
+    data: PauseProducerMessage | ResumeProducerMessage
+  ): void {
+    const producer = peer.producers.get(data.producerId);
+    if (!producer) {
+      sendError(peer.socket, 'Producer not found', 'PRODUCER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    producer.paused = data.type === 'pauseProducer';
+    const type = producer.paused ? 'producerPaused' : 'producerResumed';
+
+    send(peer.socket, {
+      type,
+      producerId: producer.id,
+      userId: peer.userId,
+      requestId: data.requestId,
+    });
+
+    this.registry.broadcast(peer, { type, producerId: producer.id, userId: peer.userId });
+  }
+
+  /**
+   * Handle a consumer's preferred simulcast layers, clamped to what the producer sends
+   */
+  private handleSetPreferredLayersMessage(
+    peer: Peer,
+    data: SetConsumerPreferredLayersMessage
+  ): void {
+    const consumer = peer.consumers.get(data.consumerId);
+    if (!consumer) {
+      sendError(peer.socket, 'Consumer not found', 'CONSUMER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const temporalLayer = data.temporalLayer ?? MAX_TEMPORAL_LAYER;
+    if (
+      consumer.kind !== 'video' ||
+      !Number.isInteger(data.spatialLayer) ||
+      !Number.isInteger(temporalLayer) ||
+      data.spatialLayer < 0 ||
+      temporalLayer < 0
+    ) {
+      sendError(peer.socket, 'Invalid preferred layers', 'INVALID_LAYERS', data.requestId);
+      return;
+    }
+
+    const producer = this.registry.findProducer(peer.roomId, consumer.producerId)?.producer;
+    const spatialLayers = producer?.spatialLayers ?? 1;
+    consumer.spatialLayer = Math.min(data.spatialLayer, spatialLayers - 1);
+    consumer.temporalLayer = Math.min(temporalLayer, MAX_TEMPORAL_LAYER);
+
+    send(peer.socket, {
+      type: 'consumerLayersChanged',
+      consumerId: consumer.id,
+      producerId: consumer.producerId,
+      spatialLayer: consumer.spatialLayer,
+      temporalLayer: consumer.temporalLayer,
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Handle a chat message: fan it out to the room, or deliver it to a single recipient
+   */
+  private handleChatMessage(peer: Peer, data: SendChatMessage): void {
+    const text = typeof data.text === 'string' ? data.text.trim() : '';
+    if (!text || text.length > MAX_CHAT_MESSAGE_LENGTH) {
+      sendError(peer.socket, 'Invalid chat message', 'INVALID_CHAT_MESSAGE', data.requestId);
+      return;
+    }
+
+    const room = this.registry.getRoom(peer.roomId);
+    const recipient = data.to !== undefined ? room?.peers.get(data.to) : undefined;
+    if (!room || (data.to !== undefined && !recipient)) {
+      sendError(peer.socket, 'Recipient not in room', 'PEER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const message: ChatMessage = {
+      id: this.nextId('chat'),
+      from: peer.userId,
+      to: data.to,
+      text,
+      timestamp: Date.now(),
+    };
+    room.chatHistory.push(message);
+    room.chatHistory.splice(0, room.chatHistory.length - this.chatHistorySize);
+
+    send(peer.socket, { type: 'chatMessage', ...message, requestId: data.requestId });
+
+    if (recipient) {
+      send(recipient.socket, { type: 'chatMessage', ...message });
+    } else {
+      this.registry.broadcast(peer, { type: 'chatMessage', ...message });
+    }
+  }
+
+  /**
+   * Handle a level report of the peer's own microphone
+   */
+  private handleReportAudioLevelMessage(peer: Peer, data: ReportAudioLevelMessage): void {
+    if (typeof data.level !== 'number' || !(data.level >= 0 && data.level <= 1)) {
+      sendError(peer.socket, 'Invalid audio level', 'INVALID_AUDIO_LEVEL', data.requestId);
+      return;
+    }
+    this.audioLevelObserver.report(peer.roomId, peer.userId, data.level);
+  }
+
+  /**
+   * Broadcast who spoke during the last interval and announce active speaker changes.
+   * The last speaker stays active through silence.
+   */
+  private observeAudioLevels(): void {
+    for (const room of this.registry.allRooms()) {
+      const levels = this.audioLevelObserver
+        .collect(room.id)
+        .filter(({ userId }) => room.peers.has(userId));
+      if (levels.length === 0) {
+        continue;
+      }
+
+      this.registry.broadcastToRoom(room, { type: 'audioLevels', levels });
+
+      const loudest = levels[0].userId;
+      if (loudest !== room.activeSpeaker) {
+        room.activeSpeaker = loudest;
+        console.log(`Active speaker in room ${room.id}: ${loudest}`);
+        this.registry.broadcastToRoom(room, { type: 'activeSpeaker', userId: loudest });
+      }
+    }
+  }
+
+  /**
+   * Check the sender's role before dispatching a moderator request
+   */
+  private handleModerationMessage(peer: Peer, data: ModerationMessage): void {
+    if (!MODERATOR_ROLES[data.type].includes(peer.role)) {
+      sendError(
+        peer.socket,
+        `Role ${peer.role} may not send ${data.type}`,
+        'FORBIDDEN',
+        data.requestId
+      );
+      return;
+    }
+
+    switch (data.type) {
+      case 'muteParticipant':
+        this.handleMuteParticipantMessage(peer, data);
+        break;
+      case 'removeParticipant':
+        this.handleRemoveParticipantMessage(peer, data);
+        break;
+      case 'lockRoom':
+        this.handleLockRoomMessage(peer, data);
+        break;
+      case 'setLobby':
+        this.handleSetLobbyMessage(peer, data);
+        break;
+      case 'endCallForAll':
+        this.handleEndCallForAllMessage(peer, data);
+        break;
+      case 'admit':
+      case 'deny':
+        this.handleLobbyDecision(peer, data);
+        break;
+    }
+  }
+
+  /**
+   * Admit a lobby guest into the room or turn it away, and tell the other hosts
+   */
+  private handleLobbyDecision(peer: Peer, data: AdmitMessage | DenyMessage): void {
+    const room = this.registry.getRoom(peer.roomId);
+    const guest = room?.lobby.get(data.userId);
+    if (!room || !guest) {
+      sendError(peer.socket, 'Participant not in lobby', 'PEER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    const admitted = data.type === 'admit';
+    console.log(`${peer.userId} ${admitted ? 'admitted' : 'denied'} ${guest.userId}`);
+    this.registry.leaveLobby(guest.socket);
+    if (admitted) {
+      this.enterRoom(guest.socket, room.id, guest.userId, guest.role);
+    } else {
+      send(guest.socket, { type: 'lobbyDenied', by: peer.userId });
+    }
+
+    const resolved = {
+      type: 'lobbyResolved',
+      userId: guest.userId,
+      admitted,
+      by: peer.userId,
+    } as const;
+    send(peer.socket, { ...resolved, requestId: data.requestId });
+    this.registry.sendToHosts(room, resolved, peer);
+  }
+
+  /**
+   * Pause a participant's microphone or camera and tell it who muted it
+   */
+  private handleMuteParticipantMessage(peer: Peer, data: MuteParticipantMessage): void {
+    if (data.kind !== 'audio' && data.kind !== 'video') {
+      sendError(peer.socket, 'Invalid media kind', 'INVALID_KIND', data.requestId);
+      return;
+    }
+
+    const target = this.registry.getRoom(peer.roomId)?.peers.get(data.userId);
+    if (!target) {
+      sendError(peer.socket, 'Participant not in room', 'PEER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    // Screen shares are left alone, muting video means the camera
+    for (const producer of target.producers.values()) {
+      if (producer.kind !== data.kind || producer.source === 'screen' || producer.paused) {
+        continue;
+      }
+      producer.paused = true;
+      this.registry.broadcast(target, {
+        type: 'producerPaused',
+        producerId: producer.id,
+        userId: target.userId,
+      });
+    }
+
+    console.log(`${peer.userId} muted ${data.kind} of ${target.userId}`);
+    const muted = {
+      type: 'participantMuted',
+      userId: target.userId,
+      kind: data.kind,
+      by: peer.userId,
+    } as const;
+    if (target !== peer) {
+      send(target.socket, muted);
+    }
+    send(peer.socket, { ...muted, requestId: data.requestId });
+  }
+
+  /**
+   * Remove a participant from the room; it cannot rejoin while the room is locked
+   */
+  private handleRemoveParticipantMessage(peer: Peer, data: RemoveParticipantMessage): void {
+    const room = this.registry.getRoom(peer.roomId);
+    const target = room?.peers.get(data.userId);
+    if (!room || !target) {
+      sendError(peer.socket, 'Participant not in room', 'PEER_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    console.log(`${peer.userId} removed ${target.userId} from room ${room.id}`);
+    room.members.delete(target.userId);
+    send(target.socket, { type: 'removedFromRoom', reason: 'removed', by: peer.userId });
+    this.removePeer(target.socket);
+
+    send(peer.socket, {
+      type: 'participantRemoved',
+      userId: target.userId,
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Lock or unlock the room for users who are not members yet
+   */
+  private handleLockRoomMessage(peer: Peer, data: LockRoomMessage): void {
+    const room = this.registry.getRoom(peer.roomId);
+    if (!room || typeof data.locked !== 'boolean') {
+      sendError(peer.socket, 'Invalid lock state', 'INVALID_MESSAGE', data.requestId);
+      return;
+    }
+
+    room.locked = data.locked;
+    console.log(`${peer.userId} ${room.locked ? 'locked' : 'unlocked'} room ${room.id}`);
+
+    send(peer.socket, {
+      type: 'roomLocked',
+      locked: room.locked,
+      by: peer.userId,
+      requestId: data.requestId,
+    });
+    this.registry.broadcast(peer, { type: 'roomLocked', locked: room.locked, by: peer.userId });
+  }
+
+  /**
+   * Turn the lobby of the room on or off. Guests already waiting stay until a host decides.
+   */
+  private handleSetLobbyMessage(peer: Peer, data: SetLobbyMessage): void {
+    const room = this.registry.getRoom(peer.roomId);
+    if (!room || typeof data.enabled !== 'boolean') {
+      sendError(peer.socket, 'Invalid lobby state', 'INVALID_MESSAGE', data.requestId);
+      return;
+    }
+
+    room.lobbyEnabled = data.enabled;
+    console.log(
+      `${peer.userId} turned the lobby of room ${room.id} ${data.enabled ? 'on' : 'off'}`
+    );
+
+    send(peer.socket, {
+      type: 'lobbyChanged',
+      enabled: room.lobbyEnabled,
+      by: peer.userId,
+      requestId: data.requestId,
+    });
+    this.registry.broadcast(peer, {
+      type: 'lobbyChanged',
+      enabled: room.lobbyEnabled,
+      by: peer.userId,
+    });
+  }
+
+  /**
+   * Remove every participant, ending the call for the whole room
+   */
+  private handleEndCallForAllMessage(peer: Peer, data: EndCallForAllMessage): void {
+    console.log(`${peer.userId} ended the call in room ${peer.roomId}`);
+
+    const room = this.registry.getRoom(peer.roomId);
+    for (const guest of room ? Array.from(room.lobby.values()) : []) {
+      send(guest.socket, { type: 'lobbyDenied', by: peer.userId });
+      this.registry.leaveLobby(guest.socket);
+    }
+    for (const other of this.registry.otherPeers(peer)) {
+      send(other.socket, { type: 'removedFromRoom', reason: 'callEnded', by: peer.userId });
+      this.releasePeer(other);
+    }
+    this.releasePeer(peer);
+
+    send(peer.socket, { type: 'callEnded', requestId: data.requestId });
+  }
+
+  /**
+   * Handle ICE restart for a transport that survived a client reconnection
+   */
+  private handleRestartIceMessage(peer: Peer, data: RestartIceMessage): void {
+    if (!peer.transports.has(data.transportId)) {
+      sendError(peer.socket, 'Transport not found', 'TRANSPORT_NOT_FOUND', data.requestId);
+      return;
+    }
+
+    send(peer.socket, {
+      type: 'iceRestarted',
+      transportId: data.transportId,
+      iceParameters: {
+        ...FAKE_TRANSPORT_PARAMS.iceParameters,
+        usernameFragment: `fake-ufrag-${this.nextId('ice')}`,
+      },
+      requestId: data.requestId,
+    });
+  }
+
+  /**
+   * Drop clients that stopped pinging; closing their sockets releases them like a disconnect.
+   * Clients that never pinged are left to the socket's own close.
+   */
+  private evictSilentClients(): void {
+    const now = Date.now();
+    for (const [ws, lastPing] of this.heartbeats) {
+      if (now - lastPing > this.heartbeatTimeout) {
+        const userId = this.registry.getPeer(ws)?.userId ?? this.registry.getGuest(ws)?.userId;
+        console.log(`Evicting ${userId ?? 'client'} after missed heartbeats`);
+        this.heartbeats.delete(ws);
+        ws.terminate();
+      }
+    }
+  }
+
+  /**
+   * Keep the peer of a dropped connection for the grace period so it can resume,
+   * then release it as if it had left
+   */
+  private holdPeer(ws: ClientConnection): void {
+    const peer = this.registry.getPeer(ws);
+    if (!peer) {
+      return;
+    }
+    if (this.sessionGracePeriod <= 0) {
+      this.removePeer(ws);
+      return;
+    }
+
+    console.log(`Holding ${peer.userId} in room ${peer.roomId} for ${this.sessionGracePeriod}ms`);
+    const timer = setTimeout(() => {
+      this.heldPeers.delete(peer);
+      this.removePeer(peer.socket);
+    }, this.sessionGracePeriod);
+    this.heldPeers.set(peer, timer);
+  }
+
+  /**
+   * Remove a leaving or disconnected peer and notify the rest of the room
+   */
+  private removePeer(ws: ClientConnection): void {
+    const peer = this.registry.getPeer(ws);
+    if (!peer) {
+      return;
+    }
+
+    this.releasePeer(peer);
+    console.log(`${peer.userId} left room ${peer.roomId}`);
+    this.registry.broadcast(peer, { type: 'peerLeft', userId: peer.userId });
+  }
+
+  /**
+   * Withdraw a lobby request and tell the hosts it is gone
+   */
+  private leaveLobby(ws: ClientConnection): void {
+    const guest = this.registry.leaveLobby(ws);
+    const room = guest && this.registry.getRoom(guest.roomId);
+    if (guest && room) {
+      console.log(`${guest.userId} left the lobby of room ${room.id}`);
+      this.registry.sendToHosts(room, { type: 'lobbyLeft', userId: guest.userId });
+    }
+  }
+
+  /**
+   * Unregister a peer, releasing its transports and closing its producers for the room
+   */
+  private releasePeer(peer: Peer): void {
+    clearTimeout(this.heldPeers.get(peer));
+    this.heldPeers.delete(peer);
+    const room = this.registry.getRoom(peer.roomId);
+    if (room?.activeSpeaker === peer.userId) {
+      room.activeSpeaker = undefined;
+    }
+    this.audioLevelObserver.removePeer(peer.roomId, peer.userId);
+    this.registry.remove(peer.socket);
+
+    for (const producerId of peer.producers.keys()) {
+      this.registry.removeConsumersOf(peer.roomId, producerId);
+      this.registry.broadcast(peer, {
+        type: 'producerClosed',
+        producerId,
+        userId: peer.userId,
+      });
+    }
+    for (const dataProducerId of peer.dataProducers.keys()) {
+      this.registry.broadcast(peer, {
+        type: 'dataProducerClosed',
+        dataProducerId,
+        userId: peer.userId,
+      });
+    }
+    peer.producers.clear();
+    peer.consumers.clear();
+    peer.dataProducers.clear();
+    peer.transports.clear();
+  }
+
+  /**
+   * Generate a unique id for server-side objects
+   */
+  private nextId(prefix: string): string {
+    return `fake-${prefix}-${Date.now()}-${++this.idCounter}`;
+  }
+}
@@ -0,0 +1,95 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import { AuthErrorCode, AuthTokenClaims, ParticipantRole } from '../types/signaling';
+
+/**
+ * Token verification settings
+ */
+export interface AuthOptions {
+  // Shared HMAC secret the tokens are signed with
+  secret: string;
+  // Seconds of clock skew tolerated when checking expiry
+  clockTolerance?: number;
+}
+
+const ROLES: ParticipantRole[] = ['host', 'presenter', 'attendee'];
+
+/**
+ * Join rejected by token verification
+ */
+export class AuthError extends Error {
+  readonly code: AuthErrorCode;
+
+  constructor(message: string, code: AuthErrorCode) {
+    super(message);
+    this.name = 'AuthError';
+    this.code = code;
+  }
+}
+
+function base64url(input: string | Buffer): string {
+  return Buffer.from(input).toString('base64url');
+}
+
+function sign(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Create a signed join token. Intended for application backends and tests.
+ */
+export function createToken(claims: AuthTokenClaims, secret: string): string {
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify(claims));
+  return `${header}.${payload}.${base64url(sign(`${header}.${payload}`, secret))}`;
+}
+
+/**
+ * Verify a join token's signature, expiry and claims.
+ * Throws AuthError with AUTH_EXPIRED or AUTH_INVALID.
+ */
+export function verifyToken(
+  token: unknown,
+  options: AuthOptions,
+  now = Date.now()
+): AuthTokenClaims {
+  if (typeof token !== 'string') {
+    throw new AuthError('Authentication token required', 'AUTH_INVALID');
+  }
+
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (!header || !payload || !signature || rest.length > 0) {
+    throw new AuthError('Malformed token', 'AUTH_INVALID');
+  }
+
+  const expected = sign(`${header}.${payload}`, options.secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    throw new AuthError('Invalid token signature', 'AUTH_INVALID');
+  }
+
+  let claims: Partial<AuthTokenClaims>;
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (alg !== 'HS256' || typeof claims !== 'object' || claims === null) {
+      throw new Error();
+    }
+  } catch {
+    throw new AuthError('Malformed token', 'AUTH_INVALID');
+  }
+
+  if (typeof claims.sub !== 'string' || typeof claims.room !== 'string') {
+    throw new AuthError('Token lacks identity or room claims', 'AUTH_INVALID');
+  }
+  if (claims.exp !== undefined && typeof claims.exp !== 'number') {
+    throw new AuthError('Invalid expiry claim', 'AUTH_INVALID');
+  }
+  if (claims.role !== undefined && !ROLES.includes(claims.role)) {
+    throw new AuthError(`Unknown role '${claims.role}'`, 'AUTH_INVALID');
+  }
+  if (claims.exp !== undefined && claims.exp + (options.clockTolerance ?? 0) <= now / 1000) {
+    throw new AuthError('Token expired', 'AUTH_EXPIRED');
+  }
+
+  return claims as AuthTokenClaims;
+}
@@ -0,0 +1,126 @@
+import { MediaKind, RtpCapabilities, RtpParameters } from 'mediasoup-client/lib/RtpParameters';
+
+/**
+ * Fake RTP capabilities for testing
+ */
+export const FAKE_RTP_CAPABILITIES: RtpCapabilities = {
+  codecs: [
+    {
+      mimeType: 'audio/opus',
+      kind: 'audio',
+      clockRate: 48000,
+      channels: 2,
+      parameters: {},
+      rtcpFeedback: [],
+    },
+    {
+      mimeType: 'video/VP8',
+      kind: 'video',
+      clockRate: 90000,
+      channels: 1,
+      parameters: {},
+      rtcpFeedback: [],
+    },
+  ],
+  headerExtensions: [
+    {
+      uri: 'urn:ietf:params:rtp-hdrext:sdes:mid',
+      kind: 'audio',
+      preferredId: 1,
+      preferredEncrypt: false,
+      direction: 'sendrecv',
+    },
+    {
+      uri: 'urn:ietf:params:rtp-hdrext:sdes:mid',
+      kind: 'video',
+      preferredId: 1,
+      preferredEncrypt: false,
+      direction: 'sendrecv',
+    },
+  ],
+};
+
+/**
+ * Fake transport parameters for testing
+ */
+export const FAKE_TRANSPORT_PARAMS = {
+  iceParameters: {
+    usernameFragment: 'fake-ufrag',
+    password: 'fake-password',
+    iceLite: true,
+  },
+  iceCandidates: [
+    {
+      foundation: 'udpcandidate',
+      address: '127.0.0.1',
+      ip: '127.0.0.1',
+      port: 44444,
+      priority: 1015875583,
+      protocol: 'udp' as const,
+      type: 'host' as const,
+    },
+  ],
+  dtlsParameters: {
+    role: 'auto' as const,
+    fingerprints: [
+      {
+        algorithm: 'sha-256' as const,
+        value:
+          'AA:BB:CC:DD:EE:FF:00:11:22:33:44:55:66:77:88:99:AA:BB:CC:DD:EE:FF:00:11:22:33:44:55:66:77:88:99',
+      },
+    ],
+  },
+  sctpParameters: {
+    port: 5000,
+    OS: 1024,
+    MIS: 1024,
+    maxMessageSize: 262144,
+  },
+};
+
+/**
+ * Fake codec parameters per media kind
+ */
+const FAKE_CODECS: Record<MediaKind, RtpParameters['codecs'][number]> = {
+  audio: {
+    mimeType: 'audio/opus',
+    payloadType: 100,
+    clockRate: 48000,
+    channels: 2,
+    parameters: {},
+    rtcpFeedback: [],
+  },
+  video: {
+    mimeType: 'video/VP8',
+    payloadType: 96,
+    clockRate: 90000,
+    parameters: {},
+    rtcpFeedback: [],
+  },
+};
+
+/**
+ * Create fake RTP parameters for testing
+ */
+export function createFakeRtpParameters(kind: MediaKind): RtpParameters {
+  return {
+    codecs: [FAKE_CODECS[kind]],
+    headerExtensions: [
+      {
+        uri: 'urn:ietf:params:rtp-hdrext:sdes:mid',
+        id: 1,
+        encrypt: false,
+        parameters: {},
+      },
+    ],
+    encodings: [
+      {
+        ssrc: Math.floor(Math.random() * 1000000),
+      },
+    ],
+    rtcp: {
+      cname: `fake-cname-${Date.now()}`,
+      reducedSize: true,
+    },
+  };
+}
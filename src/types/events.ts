@@ -1,5 +1,19 @@
 import * as mediasoupClient from 'mediasoup-client';
+import {
+  CallStats,
+  DataPayload,
+  MediaInputDevices,
+  MediaKind,
+  NetworkQuality,
+  SenderAdaptation,
+} from './media';
 import { 
+  AudioLevel,
+  ChatMessage,
+  ParticipantRole,
+  PeerInfo,
+  RemovalReason,
+  VideoSource,
   WebRtcTransportCreatedMessage, 
   TransportConnectedMessage, 
   ProducerCreatedMessage, 
@@ -18,7 +32,20 @@ export interface VideoCallEvents {
   error: Error;
   
   // Room events
-  joined: { roomId: string; userId: string };
+  joined: { roomId: string; userId: string; peers: PeerInfo[] };
+  activeSpeakerChanged: ActiveSpeakerChangedEvent;
+  chatMessageReceived: ChatMessage;
+  roomLocked: RoomLockedEvent;
+  lobbyChanged: LobbyChangedEvent;
+
+  // Lobby events
+  lobbyStatusChanged: LobbyStatusChangedEvent;
+  lobbyRequest: { userId: string };
+  lobbyRequestClosed: LobbyRequestClosedEvent;
+
+  // Moderation events
+  youWereMuted: YouWereMutedEvent;
+  youWereRemoved: YouWereRemovedEvent;
   
   // Device events
   deviceReady: void;
@@ -26,11 +53,30 @@ export interface VideoCallEvents {
   // Local media events
   localVideoStarted: { producer: mediasoupClient.types.Producer };
   localVideoStopped: void;
+  localAudioStarted: { producer: mediasoupClient.types.Producer };
+  localAudioStopped: void;
+  localScreenShareStarted: { producer: mediasoupClient.types.Producer };
+  localScreenShareStopped: void;
+  localQualityAdapted: SenderAdaptation;
   
   // Remote media events
-  remoteVideoStarted: { userId: string; producerId: string; track: MediaStreamTrack };
+  remoteVideoStarted: RemoteVideoStartedEvent;
   remoteVideoStopped: { userId: string; producerId: string };
+  remoteAudioStarted: { userId: string; producerId: string; track: MediaStreamTrack };
+  remoteAudioStopped: { userId: string; producerId: string };
+  remoteMuteChanged: RemoteMuteChangedEvent;
+  layersChanged: LayersChangedEvent;
+
+  // Data channel events
+  dataReceived: DataReceivedEvent;
   
+  // Device events
+  devicesChanged: MediaInputDevices;
+
+  // Statistics
+  statsUpdated: CallStats;
+  networkQualityChanged: NetworkQualityChangedEvent;
+
   // Participant events
   participantJoined: { userId: string };
   participantLeft: { userId: string };
@@ -39,6 +85,131 @@ export interface VideoCallEvents {
   reconnecting: void;
   reconnected: void;
   reconnectionFailed: Error;
+  mediaRecovered: MediaRecoveryResult;
+  serverChanged: ServerChangedEvent;
+}
+
+/**
+ * Remote video became available; `source` tells camera and screen share apart
+ */
+export interface RemoteVideoStartedEvent {
+  userId: string;
+  producerId: string;
+  source: VideoSource;
+  track: MediaStreamTrack;
+}
+
+/**
+ * A remote participant paused (muted) or resumed one of its producers
+ */
+export interface RemoteMuteChangedEvent {
+  userId: string;
+  producerId: string;
+  kind: MediaKind;
+  muted: boolean;
+}
+
+/**
+ * Simulcast layers received for a remote video changed
+ */
+export interface LayersChangedEvent {
+  userId: string;
+  producerId: string;
+  spatialLayer: number;
+  temporalLayer: number;
+}
+
+/**
+ * The participant currently speaking the loudest changed
+ */
+export interface ActiveSpeakerChangedEvent {
+  userId: string;
+}
+
+/**
+ * Progress of our own join through the lobby
+ */
+export interface LobbyStatusChangedEvent {
+  status: 'waiting' | 'admitted' | 'denied';
+}
+
+/**
+ * A lobby request hosts were shown is gone: answered by a host, or withdrawn
+ */
+export interface LobbyRequestClosedEvent {
+  userId: string;
+  outcome: 'admitted' | 'denied' | 'left';
+  // Host who answered the request
+  by?: string;
+}
+
+/**
+ * A moderator muted our microphone or camera
+ */
+export interface YouWereMutedEvent {
+  kind: MediaKind;
+  by: string;
+}
+
+/**
+ * A moderator removed us from the room or ended the call; the call is torn down
+ */
+export interface YouWereRemovedEvent {
+  reason: RemovalReason;
+  by: string;
+}
+
+/**
+ * The signaling connection moved to another server, e.g. after the previous one failed
+ */
+export interface ServerChangedEvent {
+  from: string;
+  to: string;
+}
+
+/**
+ * A moderator locked or unlocked the room for new participants
+ */
+export interface RoomLockedEvent {
+  locked: boolean;
+  by: string;
+}
+
+/**
+ * A host turned the lobby of the room on or off
+ */
+export interface LobbyChangedEvent {
+  enabled: boolean;
+  by: string;
+}
+
+/**
+ * Message received on a remote participant's data channel
+ */
+export interface DataReceivedEvent {
+  userId: string;
+  label: string;
+  data: DataPayload;
+}
+
+/**
+ * Network quality of a participant changed.
+ * For remote participants only the downlink (what we receive from them) is known.
+ */
+export interface NetworkQualityChangedEvent extends NetworkQuality {
+  userId: string;
+}
+
+/**
+ * Outcome of restoring media after reconnection
+ */
+export interface MediaRecoveryResult {
+  // True if server-side transports survived and only ICE was restarted
+  iceRestarted: boolean;
+  // Local media that was produced again
+  localMedia: Array<MediaKind | 'screen' | 'data'>;
+  // Remote producers that were consumed again
+  remoteProducers: string[];
 }
 
 /**
@@ -49,10 +220,17 @@ export interface ConnectionStatus {
   deviceReady: boolean;
   inRoom: boolean;
   hasVideo: boolean;
+  hasAudio: boolean;
+  hasScreenShare: boolean;
+  networkQuality: NetworkQuality;
   remoteParticipants: number;
   queueSize: number;
   processing: boolean;
   reconnecting: boolean;
+  // Round trip of the last answered signaling heartbeat in ms
+  rtt?: number;
+  // Signaling server of the current or last connection
+  serverUrl?: string;
 }
 
 // === Manager-specific Events ===
@@ -65,14 +243,44 @@ export interface ConnectionEvents {
   connected: void;
   disconnected: void;
   error: Error;
+  serverChanged: ServerChangedEvent;
   
   // Room management
-  joined: { roomId: string; userId: string };
+  joined: {
+    roomId: string;
+    userId: string;
+    role?: ParticipantRole;
+    peers: PeerInfo[];
+    activeSpeaker?: string;
+    chatHistory: ChatMessage[];
+  };
   
   // Signaling events with proper types
   routerRtpCapabilities: { rtpCapabilities: mediasoupClient.types.RtpCapabilities };
-  newProducer: { producerId: string; userId: string };
+  newProducer: { producerId: string; userId: string; source?: VideoSource };
   producerClosed: { producerId: string; userId: string };
+  newDataProducer: { dataProducerId: string; userId: string; label: string };
+  dataProducerClosed: { dataProducerId: string; userId: string };
+  producerPaused: { producerId: string; userId: string };
+  producerResumed: { producerId: string; userId: string };
+  consumerLayersChanged: {
+    consumerId: string;
+    producerId: string;
+    spatialLayer: number;
+    temporalLayer: number;
+  };
+  peerJoined: { userId: string };
+  peerLeft: { userId: string };
+  audioLevels: { levels: AudioLevel[] };
+  activeSpeaker: ActiveSpeakerChangedEvent;
+  chatMessage: ChatMessage;
+  youWereMuted: YouWereMutedEvent;
+  removedFromRoom: YouWereRemovedEvent;
+  lobbyStatusChanged: LobbyStatusChangedEvent;
+  lobbyRequest: { userId: string };
+  lobbyRequestClosed: LobbyRequestClosedEvent;
+  roomLocked: RoomLockedEvent;
+  lobbyChanged: LobbyChangedEvent;
   
   // Transport events with proper types
   webRtcTransportCreated: WebRtcTransportCreatedMessage;
@@ -82,7 +290,13 @@ export interface ConnectionEvents {
   
   // Reconnection events
   reconnecting: void;
-  reconnected: void;
+  // resumed: the server kept our peer, so transports and producers survived
+  reconnected: {
+    role?: ParticipantRole;
+    peers: PeerInfo[];
+    chatHistory: ChatMessage[];
+    resumed: boolean;
+  };
   reconnectionFailed: Error;
 }
 
@@ -92,8 +306,20 @@ export interface ConnectionEvents {
 export interface MediaEvents {
   localVideoStarted: { producer: mediasoupClient.types.Producer };
   localVideoStopped: void;
-  remoteVideoStarted: { userId: string; producerId: string; track: MediaStreamTrack };
+  localAudioStarted: { producer: mediasoupClient.types.Producer };
+  localAudioStopped: void;
+  localScreenShareStarted: { producer: mediasoupClient.types.Producer };
+  localScreenShareStopped: void;
+  // The user stopped sharing through the browser UI
+  screenShareEnded: void;
+  localQualityAdapted: SenderAdaptation;
+  devicesChanged: MediaInputDevices;
+  remoteVideoStarted: RemoteVideoStartedEvent;
   remoteVideoStopped: { userId: string; producerId: string };
+  remoteAudioStarted: { userId: string; producerId: string; track: MediaStreamTrack };
+  remoteAudioStopped: { userId: string; producerId: string };
+  remoteMuteChanged: RemoteMuteChangedEvent;
+  layersChanged: LayersChangedEvent;
 }
 
 /**
@@ -102,4 +328,39 @@ export interface MediaEvents {
 export interface DeviceEvents {
   deviceReady: void;
   transportCreated: { transport: mediasoupClient.types.Transport; type: 'send' | 'recv' };
-}
\ No newline at end of file
+}
+
+/**
+ * Events emitted by StatsManager
+ */
+export interface StatsEvents {
+  statsUpdated: CallStats;
+}
+
+/**
+ * Events emitted by NetworkQualityManager
+ */
+export interface NetworkQualityEvents {
+  networkQualityChanged: NetworkQualityChangedEvent;
+}
+
+/**
+ * Events emitted by ActiveSpeakerManager
+ */
+export interface ActiveSpeakerEvents {
+  activeSpeakerChanged: ActiveSpeakerChangedEvent;
+}
+
+/**
+ * Events emitted by DataManager
+ */
+export interface DataEvents {
+  dataReceived: DataReceivedEvent;
+}
+
+/**
+ * Events emitted by ChatManager
+ */
+export interface ChatEvents {
+  chatMessageReceived: ChatMessage;
+}
@@ -5,7 +5,9 @@
 // Core SDK types
 export * from './events';
 export * from './media';
+export * from './options';
 export * from './signaling';
+export * from './transport';
 
 // Test types (only export in test environments)
 export * from './test';
\ No newline at end of file
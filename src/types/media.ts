@@ -1,25 +1,51 @@
 import * as mediasoupClient from 'mediasoup-client';
+import { VideoSource } from './signaling';
 
 /**
  * Media kinds supported by the SDK
  */
 export type MediaKind = 'audio' | 'video';
 
+/**
+ * Local producer information
+ */
+export interface LocalProducer {
+  producer: mediasoupClient.types.Producer;
+  kind: MediaKind;
+  source?: VideoSource;
+}
+
 /**
  * Remote consumer information
  */
 export interface RemoteConsumer {
   userId: string;
   producerId: string;
+  kind: MediaKind;
+  source?: VideoSource;
+  paused: boolean;
+  // Simulcast layers currently received, as last reported by the server
+  layers?: Required<ConsumerLayers>;
   consumer: mediasoupClient.types.Consumer;
   track: MediaStreamTrack;
 }
 
+/**
+ * Simulcast layers a video consumer prefers to receive.
+ * Spatial layer 0 is the lowest encoding; temporal layer defaults to the highest.
+ */
+export interface ConsumerLayers {
+  spatialLayer: number;
+  temporalLayer?: number;
+}
+
 /**
  * Video encoding settings
  */
 export interface VideoEncodingSettings {
   maxBitrate: number;
+  scaleResolutionDownBy?: number;
+  maxFramerate?: number;
 }
 
 /**
@@ -29,6 +55,23 @@ export interface VideoCodecOptions {
   videoGoogleStartBitrate: number;
 }
 
+/**
+ * Audio codec options
+ */
+export interface AudioCodecOptions {
+  opusStereo?: boolean;
+  opusDtx?: boolean;
+  opusFec?: boolean;
+}
+
+/**
+ * Capture devices available for camera and microphone selection
+ */
+export interface MediaInputDevices {
+  videoInputs: MediaDeviceInfo[];
+  audioInputs: MediaDeviceInfo[];
+}
+
 /**
  * Media constraints for getUserMedia
  */
@@ -45,6 +88,27 @@ export const DEFAULT_VIDEO_CONSTRAINTS: MediaTrackConstraints = {
   height: 480,
 };
 
+/**
+ * Default audio constraints
+ */
+export const DEFAULT_AUDIO_CONSTRAINTS: MediaTrackConstraints = {
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+};
+
+/**
+ * Default screen capture constraints
+ */
+export const DEFAULT_SCREEN_SHARE_CONSTRAINTS: MediaTrackConstraints = {
+  frameRate: 15,
+};
+
+/**
+ * Default screen share encoding (single layer, sharp text over high framerate)
+ */
+export const DEFAULT_SCREEN_SHARE_ENCODINGS: VideoEncodingSettings[] = [{ maxBitrate: 1500000 }];
+
 /**
  * Default video encodings for SVC
  */
@@ -61,6 +125,14 @@ export const DEFAULT_CODEC_OPTIONS: VideoCodecOptions = {
   videoGoogleStartBitrate: 1000,
 };
 
+/**
+ * Default audio codec options
+ */
+export const DEFAULT_AUDIO_CODEC_OPTIONS: AudioCodecOptions = {
+  opusStereo: false,
+  opusDtx: true,
+};
+
 /**
  * Participant information
  */
@@ -94,4 +166,80 @@ export interface MediaStats {
   fractionLost?: number;
   jitter?: number;
   roundTripTime?: number;
-}
\ No newline at end of file
+  // Bits per second since the previous sample
+  bitrate?: number;
+  // Estimated bits per second the connection can send
+  availableOutgoingBitrate?: number;
+  // The browser reduced outgoing video quality because of CPU load
+  cpuLimited?: boolean;
+}
+
+/**
+ * Statistics of a local producer
+ */
+export interface ProducerStats extends MediaStats {
+  producerId: string;
+  kind: MediaKind;
+  source?: VideoSource;
+}
+
+/**
+ * Statistics of a consumer of a remote participant's media
+ */
+export interface ConsumerStats extends MediaStats {
+  producerId: string;
+  userId: string;
+  kind: MediaKind;
+}
+
+/**
+ * Why the local sender changed its quality
+ */
+export type AdaptationReason = 'congestion' | 'bandwidth' | 'cpu' | 'recovered';
+
+/**
+ * Sending limits applied to the local camera producer
+ */
+export interface SenderAdaptation {
+  // Highest simulcast encoding that stays enabled
+  maxSpatialLayer: number;
+  // Frame rate cap, undefined when the encodings' own frame rate applies
+  maxFramerate?: number;
+  reason: AdaptationReason;
+}
+
+/**
+ * Network quality scores from 0 (unusable) to 5 (excellent).
+ * A direction is undefined while no media flows in it.
+ */
+export interface NetworkQuality {
+  uplink?: number;
+  downlink?: number;
+}
+
+/**
+ * Snapshot of call statistics across transports, producers and consumers
+ */
+export interface CallStats {
+  timestamp: number;
+  send?: MediaStats;
+  recv?: MediaStats;
+  producers: ProducerStats[];
+  consumers: ConsumerStats[];
+}
+
+/**
+ * Payload of a data channel message
+ */
+export type DataPayload = string | ArrayBuffer;
+
+/**
+ * Reliability of a data channel, applied when a label is first used.
+ * Reliable and ordered by default; set `ordered: false` with `maxRetransmits` or
+ * `maxPacketLifeTime` for lossy, low-latency messages such as cursor positions.
+ */
+export interface DataChannelOptions {
+  ordered?: boolean;
+  maxRetransmits?: number;
+  maxPacketLifeTime?: number;
+}
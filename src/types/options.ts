@@ -0,0 +1,185 @@
+import {
+  AudioCodecOptions,
+  DEFAULT_AUDIO_CODEC_OPTIONS,
+  DEFAULT_AUDIO_CONSTRAINTS,
+  DEFAULT_CODEC_OPTIONS,
+  DEFAULT_VIDEO_CONSTRAINTS,
+  DEFAULT_VIDEO_ENCODINGS,
+  VideoCodecOptions,
+  VideoEncodingSettings,
+} from './media';
+import { ClientToServerMessage } from './signaling';
+import { SignalingTransportFactory } from './transport';
+
+/**
+ * Reconnection behaviour of the signaling connection
+ */
+export interface ReconnectionOptions {
+  // Attempts before giving up with reconnectionFailed
+  maxAttempts: number;
+  // Base delay in ms, doubled on every attempt
+  baseDelay: number;
+  // Time in ms to wait for a reconnection attempt to open
+  connectTimeout: number;
+}
+
+/**
+ * Signaling heartbeat used to notice dead connections before the OS does
+ */
+export interface HeartbeatOptions {
+  // Interval in ms between pings, 0 disables the heartbeat
+  interval: number;
+  // Unanswered pings in a row before the connection is dropped and reconnected
+  maxMissed: number;
+}
+
+/**
+ * What happens to a message sent while the signaling connection is being restored:
+ * `drop` rejects it right away, `coalesce` keeps only the newest one for the same target,
+ * `replay` keeps every one in order. Kept messages are sent once the session is resumed.
+ */
+export type OutboundPolicy = 'drop' | 'coalesce' | 'replay';
+
+/**
+ * Limits of the buffer holding messages sent while the connection is being restored
+ */
+export interface OutboundBufferOptions {
+  // Messages held at most, further ones are rejected
+  maxMessages: number;
+  // Time in ms a message is held before it is rejected
+  maxAge: number;
+  // Policy per message type, `replay` for types not listed
+  policies: Partial<Record<ClientToServerMessage['type'], OutboundPolicy>>;
+}
+
+/**
+ * Camera capture and encoding settings
+ */
+export interface VideoOptions {
+  constraints: MediaTrackConstraints;
+  encodings: VideoEncodingSettings[];
+  codecOptions: VideoCodecOptions;
+}
+
+/**
+ * Microphone capture and encoding settings
+ */
+export interface AudioOptions {
+  constraints: MediaTrackConstraints;
+  codecOptions: AudioCodecOptions;
+}
+
+/**
+ * Supplies a fresh join token, called before joining without a token and before
+ * every reconnection attempt so expired tokens can be refreshed
+ */
+export type TokenProvider = (context: {
+  roomId: string;
+  userId: string;
+}) => string | Promise<string>;
+
+/**
+ * Supplies the signaling server URLs to try, in order of preference. Called before
+ * connecting and before every reconnection attempt, so the list can follow deployments
+ */
+export type ServerUrlResolver = () => string[] | Promise<string[]>;
+
+/**
+ * Signaling servers of a client: one URL, an ordered list to fail over through, or a resolver
+ */
+export type SignalingServers = string | string[] | ServerUrlResolver;
+
+/**
+ * Options for joinCall() with a signed token; the userId is taken from its `sub` claim
+ */
+export interface JoinCallOptions {
+  token: string;
+}
+
+/**
+ * Options accepted by the VideoCallClient constructor.
+ * Every field is optional and falls back to the defaults below.
+ */
+export interface VideoCallClientOptions {
+  reconnection?: Partial<ReconnectionOptions>;
+  heartbeat?: Partial<HeartbeatOptions>;
+  // Listed policies are merged into the default ones
+  outboundBuffer?: Partial<OutboundBufferOptions>;
+  // Time in ms to wait for the server to answer transport and consumer requests
+  requestTimeout?: number;
+  // Interval in ms between statsUpdated events, 0 disables polling
+  statsInterval?: number;
+  // Interval in ms between local audio level reports, 0 disables active speaker detection
+  audioLevelInterval?: number;
+  tokenProvider?: TokenProvider;
+  // Creates the connection to a signaling server URL, the `ws` WebSocket by default
+  transport?: SignalingTransportFactory;
+  video?: Partial<VideoOptions>;
+  audio?: Partial<AudioOptions>;
+}
+
+/**
+ * Client options with all defaults applied
+ */
+export interface ResolvedClientOptions {
+  reconnection: ReconnectionOptions;
+  heartbeat: HeartbeatOptions;
+  outboundBuffer: OutboundBufferOptions;
+  requestTimeout: number;
+  statsInterval: number;
+  audioLevelInterval: number;
+  tokenProvider?: TokenProvider;
+  transport?: SignalingTransportFactory;
+  video: VideoOptions;
+  audio: AudioOptions;
+}
+
+/**
+ * Per-call overrides for startVideo()
+ */
+export type StartVideoOptions = Partial<VideoOptions>;
+
+/**
+ * Per-call overrides for startAudio()
+ */
+export type StartAudioOptions = Partial<AudioOptions>;
+
+/**
+ * Default client options
+ */
+export const DEFAULT_CLIENT_OPTIONS: ResolvedClientOptions = {
+  reconnection: {
+    maxAttempts: 5,
+    baseDelay: 1000,
+    connectTimeout: 10000,
+  },
+  heartbeat: {
+    interval: 5000,
+    maxMissed: 3,
+  },
+  outboundBuffer: {
+    maxMessages: 100,
+    maxAge: 30000,
+    policies: {
+      // Stale by the time the connection is back
+      reportAudioLevel: 'drop',
+      ping: 'drop',
+      // Only the latest state matters
+      pauseProducer: 'coalesce',
+      resumeProducer: 'coalesce',
+      setConsumerPreferredLayers: 'coalesce',
+    },
+  },
+  requestTimeout: 10000,
+  statsInterval: 2000,
+  audioLevelInterval: 500,
+  video: {
+    constraints: DEFAULT_VIDEO_CONSTRAINTS,
+    encodings: DEFAULT_VIDEO_ENCODINGS,
+    codecOptions: DEFAULT_CODEC_OPTIONS,
+  },
+  audio: {
+    constraints: DEFAULT_AUDIO_CONSTRAINTS,
+    codecOptions: DEFAULT_AUDIO_CODEC_OPTIONS,
+  },
+};
@@ -1,4 +1,5 @@
 import { RtpCapabilities, RtpParameters } from 'mediasoup-client/lib/RtpParameters';
+import { SctpStreamParameters } from 'mediasoup-client/lib/SctpParameters';
 import { DtlsParameters } from 'mediasoup-client/lib/Transport';
 
 /**
@@ -9,27 +10,66 @@ export interface SignalMessage {
   [key: string]: unknown;
 }
 
+/**
+ * Correlation field shared by requests and the responses answering them.
+ * The server echoes the requestId of a request back on its response or error.
+ */
+export interface CorrelatedMessage {
+  requestId?: string;
+}
+
+/**
+ * Origin of a video producer, sent by clients as `appData.source` when producing
+ */
+export type VideoSource = 'camera' | 'screen';
+
+/**
+ * Role of a participant within a room
+ */
+export type ParticipantRole = 'host' | 'presenter' | 'attendee';
+
+/**
+ * Claims of a signed join token (JWT, HS256)
+ */
+export interface AuthTokenClaims {
+  sub: string; // userId
+  room: string; // roomId the token grants access to
+  exp?: number; // Expiry, seconds since epoch
+  role?: ParticipantRole;
+}
+
+/**
+ * Error codes of a join rejected by token verification
+ */
+export type AuthErrorCode = 'AUTH_EXPIRED' | 'AUTH_INVALID';
+
+/**
+ * Why the server removed a participant from the room
+ */
+export type RemovalReason = 'removed' | 'callEnded';
+
 // === Client to Server Messages ===
 
-export interface JoinRoomMessage {
+export interface JoinRoomMessage extends CorrelatedMessage {
   type: 'join';
   roomId: string;
   userId: string;
+  token?: string; // Required when the server verifies tokens
 }
 
-export interface CreateWebRtcTransportMessage {
+export interface CreateWebRtcTransportMessage extends CorrelatedMessage {
   type: 'createWebRtcTransport';
   consuming: boolean; // false for send transport, true for recv transport
   forceTcp?: boolean;
 }
 
-export interface ConnectTransportMessage {
+export interface ConnectTransportMessage extends CorrelatedMessage {
   type: 'connectTransport';
   transportId: string;
   dtlsParameters: DtlsParameters;
 }
 
-export interface ProduceMessage {
+export interface ProduceMessage extends CorrelatedMessage {
   type: 'produce';
   transportId: string;
   kind: 'audio' | 'video';
@@ -37,41 +77,229 @@ export interface ProduceMessage {
   appData?: Record<string, unknown>;
 }
 
-export interface ConsumeMessage {
+export interface ConsumeMessage extends CorrelatedMessage {
   type: 'consume';
   transportId: string;
   producerId: string;
   rtpCapabilities: RtpCapabilities;
 }
 
+export interface ProduceDataMessage extends CorrelatedMessage {
+  type: 'produceData';
+  transportId: string;
+  sctpStreamParameters: SctpStreamParameters;
+  label: string;
+  protocol?: string;
+  appData?: Record<string, unknown>;
+}
+
+export interface ConsumeDataMessage extends CorrelatedMessage {
+  type: 'consumeData';
+  transportId: string;
+  dataProducerId: string;
+}
+
+export interface RestartIceMessage extends CorrelatedMessage {
+  type: 'restartIce';
+  transportId: string;
+}
+
+export interface LeaveRoomMessage extends CorrelatedMessage {
+  type: 'leave';
+}
+
+export interface CloseProducerMessage extends CorrelatedMessage {
+  type: 'closeProducer';
+  producerId: string;
+}
+
+export interface PauseProducerMessage extends CorrelatedMessage {
+  type: 'pauseProducer';
+  producerId: string;
+}
+
+export interface ResumeProducerMessage extends CorrelatedMessage {
+  type: 'resumeProducer';
+  producerId: string;
+}
+
+export interface SetConsumerPreferredLayersMessage extends CorrelatedMessage {
+  type: 'setConsumerPreferredLayers';
+  consumerId: string;
+  spatialLayer: number;
+  temporalLayer?: number; // Highest temporal layer when omitted
+}
+
+/**
+ * Chat message to everyone in the room, or only to `to` when set
+ */
+export interface SendChatMessage extends CorrelatedMessage {
+  type: 'chatMessage';
+  text: string;
+  to?: string;
+}
+
+/**
+ * Level of the sender's own microphone, reported periodically without a response
+ */
+export interface ReportAudioLevelMessage extends CorrelatedMessage {
+  type: 'reportAudioLevel';
+  level: number; // 0 (silence) to 1 (loudest)
+}
+
+/**
+ * Moderator request to mute another participant's camera or microphone
+ */
+export interface MuteParticipantMessage extends CorrelatedMessage {
+  type: 'muteParticipant';
+  userId: string;
+  kind: 'audio' | 'video';
+}
+
+/**
+ * Moderator request to remove another participant from the room
+ */
+export interface RemoveParticipantMessage extends CorrelatedMessage {
+  type: 'removeParticipant';
+  userId: string;
+}
+
+/**
+ * Moderator request to lock or unlock the room for new participants
+ */
+export interface LockRoomMessage extends CorrelatedMessage {
+  type: 'lockRoom';
+  locked: boolean;
+}
+
+/**
+ * Host request to turn the lobby of the room on or off, for this meeting only
+ */
+export interface SetLobbyMessage extends CorrelatedMessage {
+  type: 'setLobby';
+  enabled: boolean;
+}
+
+/**
+ * Moderator request to end the call for every participant
+ */
+export interface EndCallForAllMessage extends CorrelatedMessage {
+  type: 'endCallForAll';
+}
+
+/**
+ * Host request to let a participant waiting in the lobby into the room
+ */
+export interface AdmitMessage extends CorrelatedMessage {
+  type: 'admit';
+  userId: string;
+}
+
+/**
+ * Host request to turn away a participant waiting in the lobby
+ */
+export interface DenyMessage extends CorrelatedMessage {
+  type: 'deny';
+  userId: string;
+}
+
+/**
+ * Heartbeat sent periodically; the server echoes the timestamp in a pong
+ */
+export interface PingMessage extends CorrelatedMessage {
+  type: 'ping';
+  timestamp: number; // Client clock, ms
+}
+
+/**
+ * Take back the server-side peer of a dropped connection, media included
+ */
+export interface ResumeMessage extends CorrelatedMessage {
+  type: 'resume';
+  sessionId: string; // From the joined message of the dropped connection
+  token?: string; // Required when the server verifies tokens
+}
+
 export type ClientToServerMessage =
   | JoinRoomMessage
   | CreateWebRtcTransportMessage
   | ConnectTransportMessage
   | ProduceMessage
-  | ConsumeMessage;
+  | ConsumeMessage
+  | ProduceDataMessage
+  | ConsumeDataMessage
+  | CloseProducerMessage
+  | PauseProducerMessage
+  | ResumeProducerMessage
+  | SetConsumerPreferredLayersMessage
+  | ReportAudioLevelMessage
+  | SendChatMessage
+  | MuteParticipantMessage
+  | RemoveParticipantMessage
+  | LockRoomMessage
+  | SetLobbyMessage
+  | EndCallForAllMessage
+  | AdmitMessage
+  | DenyMessage
+  | PingMessage
+  | ResumeMessage
+  | RestartIceMessage
+  | LeaveRoomMessage;
 
 // === Server to Client Messages ===
 
-export interface JoinedRoomMessage {
+/**
+ * Another room participant and the producers it currently owns
+ */
+export interface PeerInfo {
+  userId: string;
+  role?: ParticipantRole;
+  producers: Array<{
+    id: string;
+    kind: 'audio' | 'video';
+    source?: VideoSource;
+  }>;
+  dataProducers?: Array<{
+    id: string;
+    label: string;
+    protocol?: string;
+  }>;
+}
+
+/**
+ * Chat message as stored by the server and delivered to recipients
+ */
+export interface ChatMessage {
+  id: string;
+  from: string;
+  to?: string; // Set for direct messages
+  text: string;
+  timestamp: number;
+}
+
+export interface JoinedRoomMessage extends CorrelatedMessage {
   type: 'joined';
   roomId: string;
   userId: string;
-  peers?: Array<{
-    userId: string;
-    producers: Array<{
-      id: string;
-      kind: 'audio' | 'video';
-    }>;
-  }>;
+  role?: ParticipantRole;
+  peers?: PeerInfo[];
+  activeSpeaker?: string;
+  // Recent chat messages visible to the joining user, oldest first
+  chatHistory?: ChatMessage[];
+  // Whether only current participants may (re)join
+  locked?: boolean;
+  // Whether new participants wait in the lobby until a host admits them
+  lobbyEnabled?: boolean;
+  // Resumes this peer after a dropped connection while the server keeps it
+  sessionId?: string;
 }
 
-export interface RouterRtpCapabilitiesMessage {
+export interface RouterRtpCapabilitiesMessage extends CorrelatedMessage {
   type: 'routerRtpCapabilities';
   rtpCapabilities: RtpCapabilities;
 }
 
-export interface WebRtcTransportCreatedMessage {
+export interface WebRtcTransportCreatedMessage extends CorrelatedMessage {
   type: 'webRtcTransportCreated';
   transportId: string;
   iceParameters: {
@@ -81,6 +309,7 @@ export interface WebRtcTransportCreatedMessage {
   };
   iceCandidates: Array<{
     foundation: string;
+    address: string;
     ip: string;
     port: number;
     priority: number;
@@ -96,39 +325,235 @@ export interface WebRtcTransportCreatedMessage {
   };
 }
 
-export interface TransportConnectedMessage {
+export interface TransportConnectedMessage extends CorrelatedMessage {
   type: 'transportConnected';
   transportId: string;
 }
 
-export interface ProducerCreatedMessage {
+export interface ProducerCreatedMessage extends CorrelatedMessage {
   type: 'producerCreated';
   producerId: string;
   kind: 'audio' | 'video';
 }
 
-export interface NewProducerMessage {
+export interface NewProducerMessage extends CorrelatedMessage {
   type: 'newProducer';
   producerId: string;
   userId: string;
   kind: 'audio' | 'video';
+  source?: VideoSource; // Set for video producers
 }
 
-export interface ConsumerCreatedMessage {
+export interface ConsumerCreatedMessage extends CorrelatedMessage {
   type: 'consumerCreated';
   consumerId: string;
   producerId: string;
   kind: 'audio' | 'video';
   rtpParameters: RtpParameters;
+  producerPaused?: boolean; // The producer was muted before we started consuming it
+}
+
+export interface DataProducerCreatedMessage extends CorrelatedMessage {
+  type: 'dataProducerCreated';
+  dataProducerId: string;
+  label: string;
 }
 
-export interface ProducerClosedMessage {
+export interface NewDataProducerMessage extends CorrelatedMessage {
+  type: 'newDataProducer';
+  dataProducerId: string;
+  userId: string;
+  label: string;
+  protocol?: string;
+}
+
+export interface DataConsumerCreatedMessage extends CorrelatedMessage {
+  type: 'dataConsumerCreated';
+  dataConsumerId: string;
+  dataProducerId: string;
+  label: string;
+  protocol?: string;
+  sctpStreamParameters: SctpStreamParameters;
+}
+
+export interface DataProducerClosedMessage extends CorrelatedMessage {
+  type: 'dataProducerClosed';
+  dataProducerId: string;
+  userId: string;
+}
+
+export interface ProducerClosedMessage extends CorrelatedMessage {
   type: 'producerClosed';
   producerId: string;
   userId: string;
 }
 
-export interface ErrorMessage {
+export interface ProducerPausedMessage extends CorrelatedMessage {
+  type: 'producerPaused';
+  producerId: string;
+  userId: string;
+}
+
+export interface ProducerResumedMessage extends CorrelatedMessage {
+  type: 'producerResumed';
+  producerId: string;
+  userId: string;
+}
+
+/**
+ * Simulcast layers a consumer currently receives, sent when they change
+ */
+export interface ConsumerLayersChangedMessage extends CorrelatedMessage {
+  type: 'consumerLayersChanged';
+  consumerId: string;
+  producerId: string;
+  spatialLayer: number;
+  temporalLayer: number;
+}
+
+export interface IceRestartedMessage extends CorrelatedMessage {
+  type: 'iceRestarted';
+  transportId: string;
+  iceParameters: WebRtcTransportCreatedMessage['iceParameters'];
+}
+
+export interface PeerJoinedMessage extends CorrelatedMessage {
+  type: 'peerJoined';
+  userId: string;
+  role?: ParticipantRole;
+}
+
+export interface PeerLeftMessage extends CorrelatedMessage {
+  type: 'peerLeft';
+  userId: string;
+}
+
+/**
+ * Audio level of a room participant, 0 (silence) to 1 (loudest)
+ */
+export interface AudioLevel {
+  userId: string;
+  level: number;
+}
+
+/**
+ * Participants speaking during the last observation interval, loudest first
+ */
+export interface AudioLevelsMessage extends CorrelatedMessage {
+  type: 'audioLevels';
+  levels: AudioLevel[];
+}
+
+/**
+ * The dominant speaker of the room changed
+ */
+export interface ActiveSpeakerMessage extends CorrelatedMessage {
+  type: 'activeSpeaker';
+  userId: string;
+}
+
+/**
+ * Chat message delivered to its recipients; the sender receives it as the response
+ */
+export interface DeliveredChatMessage extends CorrelatedMessage, ChatMessage {
+  type: 'chatMessage';
+}
+
+/**
+ * A moderator muted a participant; sent to the muted participant and the moderator
+ */
+export interface ParticipantMutedMessage extends CorrelatedMessage {
+  type: 'participantMuted';
+  userId: string;
+  kind: 'audio' | 'video';
+  by: string;
+}
+
+/**
+ * Confirms to the moderator that a participant was removed
+ */
+export interface ParticipantRemovedMessage extends CorrelatedMessage {
+  type: 'participantRemoved';
+  userId: string;
+}
+
+/**
+ * Tells a participant the server removed it from the room
+ */
+export interface RemovedFromRoomMessage extends CorrelatedMessage {
+  type: 'removedFromRoom';
+  reason: RemovalReason;
+  by: string;
+}
+
+export interface RoomLockedMessage extends CorrelatedMessage {
+  type: 'roomLocked';
+  locked: boolean;
+  by: string;
+}
+
+export interface LobbyChangedMessage extends CorrelatedMessage {
+  type: 'lobbyChanged';
+  enabled: boolean;
+  by: string;
+}
+
+/**
+ * Confirms to the moderator that the call was ended for everyone
+ */
+export interface CallEndedMessage extends CorrelatedMessage {
+  type: 'callEnded';
+}
+
+/**
+ * Answers a join when a host has to admit the participant first
+ */
+export interface LobbyWaitingMessage extends CorrelatedMessage {
+  type: 'lobbyWaiting';
+  roomId: string;
+  userId: string;
+}
+
+/**
+ * Tells hosts that a participant is waiting in the lobby
+ */
+export interface LobbyRequestMessage extends CorrelatedMessage {
+  type: 'lobbyRequest';
+  userId: string;
+}
+
+/**
+ * Tells hosts that a participant stopped waiting in the lobby
+ */
+export interface LobbyLeftMessage extends CorrelatedMessage {
+  type: 'lobbyLeft';
+  userId: string;
+}
+
+/**
+ * Tells hosts how a lobby request was answered
+ */
+export interface LobbyResolvedMessage extends CorrelatedMessage {
+  type: 'lobbyResolved';
+  userId: string;
+  admitted: boolean;
+  by: string;
+}
+
+/**
+ * Tells a waiting participant that a host turned it away
+ */
+export interface LobbyDeniedMessage extends CorrelatedMessage {
+  type: 'lobbyDenied';
+  by: string;
+}
+
+export interface PongMessage extends CorrelatedMessage {
+  type: 'pong';
+  timestamp: number; // Echoed from the ping
+}
+
+export interface ErrorMessage extends CorrelatedMessage {
   type: 'error';
   message: string;
   code?: string;
@@ -142,7 +567,32 @@ export type ServerToClientMessage =
   | ProducerCreatedMessage
   | NewProducerMessage
   | ConsumerCreatedMessage
+  | DataProducerCreatedMessage
+  | NewDataProducerMessage
+  | DataConsumerCreatedMessage
+  | DataProducerClosedMessage
   | ProducerClosedMessage
+  | ProducerPausedMessage
+  | ProducerResumedMessage
+  | ConsumerLayersChangedMessage
+  | IceRestartedMessage
+  | PeerJoinedMessage
+  | PeerLeftMessage
+  | AudioLevelsMessage
+  | ActiveSpeakerMessage
+  | DeliveredChatMessage
+  | ParticipantMutedMessage
+  | ParticipantRemovedMessage
+  | RemovedFromRoomMessage
+  | RoomLockedMessage
+  | LobbyChangedMessage
+  | CallEndedMessage
+  | LobbyWaitingMessage
+  | LobbyRequestMessage
+  | LobbyLeftMessage
+  | LobbyResolvedMessage
+  | LobbyDeniedMessage
+  | PongMessage
   | ErrorMessage;
 
 /**
@@ -150,6 +600,42 @@ export type ServerToClientMessage =
  */
 export type AnySignalMessage = ClientToServerMessage | ServerToClientMessage;
 
+/**
+ * Maps each client request type to the server message that answers it
+ */
+export interface SignalingResponseMap {
+  join: JoinedRoomMessage | LobbyWaitingMessage;
+  createWebRtcTransport: WebRtcTransportCreatedMessage;
+  connectTransport: TransportConnectedMessage;
+  produce: ProducerCreatedMessage;
+  consume: ConsumerCreatedMessage;
+  produceData: DataProducerCreatedMessage;
+  consumeData: DataConsumerCreatedMessage;
+  closeProducer: ProducerClosedMessage;
+  pauseProducer: ProducerPausedMessage;
+  resumeProducer: ProducerResumedMessage;
+  setConsumerPreferredLayers: ConsumerLayersChangedMessage;
+  chatMessage: DeliveredChatMessage;
+  muteParticipant: ParticipantMutedMessage;
+  removeParticipant: ParticipantRemovedMessage;
+  lockRoom: RoomLockedMessage;
+  setLobby: LobbyChangedMessage;
+  endCallForAll: CallEndedMessage;
+  admit: LobbyResolvedMessage;
+  deny: LobbyResolvedMessage;
+  ping: PongMessage;
+  resume: JoinedRoomMessage;
+  restartIce: IceRestartedMessage;
+}
+
+/**
+ * Response type expected for a given client request
+ */
+export type SignalingResponse<TReq extends ClientToServerMessage> =
+  TReq['type'] extends keyof SignalingResponseMap
+    ? SignalingResponseMap[TReq['type']]
+    : ServerToClientMessage;
+
 /**
  * Test message type for flexible testing
  */
@@ -170,4 +656,4 @@ export type SignalMessageUnion = AnySignalMessage | TestSignalMessage;
 export type FlexibleSignalMessage = {
   type: string;
   [key: string]: unknown;
-};
\ No newline at end of file
+};
@@ -17,6 +17,7 @@ export interface MockWebSocket {
   listeners: Map<string, Function[]>;
   send: ReturnType<typeof vi.fn>;
   on: ReturnType<typeof vi.fn>;
+  close: ReturnType<typeof vi.fn>;
   simulateOpen(): void;
   simulateMessage(data: unknown): void;
   simulateError(error: Error): void;
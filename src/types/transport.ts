@@ -0,0 +1,59 @@
+/**
+ * Lifecycle of a signaling transport; a closed transport cannot be reopened
+ */
+export type SignalingTransportState = 'connecting' | 'open' | 'closed';
+
+/**
+ * Callbacks through which a transport reports its connection
+ */
+export interface SignalingTransportListener {
+  onOpen(): void;
+  onMessage(data: string): void;
+  // Always followed by onClose
+  onError(error: Error): void;
+  onClose(): void;
+}
+
+/**
+ * Connection carrying serialized signaling messages between a client and the server
+ */
+export interface SignalingTransport {
+  readonly state: SignalingTransportState;
+  // Start connecting; the listener hears about every change from then on
+  connect(listener: SignalingTransportListener): void;
+  // Only valid while open
+  send(data: string): void;
+  // Close with a closing handshake
+  close(): void;
+  // Drop at once and report closed, for links that stopped answering
+  terminate(): void;
+}
+
+/**
+ * Creates the transport for a signaling server URL
+ */
+export type SignalingTransportFactory = (url: string) => SignalingTransport;
+
+/**
+ * Server side of a client connection: a ws WebSocket or an in-memory loopback
+ */
+export interface ClientConnection {
+  readonly readyState: number;
+  send(data: string): void;
+  terminate(): void;
+}
+
+/**
+ * How a loopback client hands its messages and its disconnection to the server
+ */
+export interface LoopbackLink {
+  receive(data: string): void;
+  disconnect(): void;
+}
+
+/**
+ * Server a loopback transport connects to in memory, without a socket
+ */
+export interface LoopbackServer {
+  acceptLoopback(client: ClientConnection): LoopbackLink;
+}
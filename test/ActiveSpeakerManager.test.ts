@@ -0,0 +1,73 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ActiveSpeakerManager } from '../src/sdk/managers/ActiveSpeakerManager';
+import { ConnectionManager } from '../src/sdk/managers/ConnectionManager';
+import { MediaManager } from '../src/sdk/managers/MediaManager';
+
+/**
+ * Remote audio consumer whose receiver reports a mutable level
+ */
+function remoteAudio(userId: string, levels: Record<string, number>) {
+  return {
+    userId,
+    kind: 'audio',
+    paused: false,
+    consumer: {
+      rtpReceiver: {
+        getSynchronizationSources: () => [{ audioLevel: levels[userId] }],
+      },
+    },
+  };
+}
+
+describe('ActiveSpeakerManager', () => {
+  const levels: Record<string, number> = {};
+  let manager: ActiveSpeakerManager;
+  let listener: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    const mediaManager = {
+      localProducers: [],
+      isAudioMuted: false,
+      remoteConsumerList: [remoteAudio('alice', levels), remoteAudio('bob', levels)],
+    } as unknown as MediaManager;
+    const connectionManager = { connected: false } as unknown as ConnectionManager;
+
+    manager = new ActiveSpeakerManager(connectionManager, mediaManager, 100);
+    listener = vi.fn();
+    manager.on('activeSpeakerChanged', listener);
+    manager.start();
+  });
+
+  afterEach(() => {
+    manager.reset();
+    vi.useRealTimers();
+  });
+
+  it('falls back to the loudest remote track once it stays the loudest', async () => {
+    Object.assign(levels, { alice: 0.5, bob: 0.1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(listener).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(listener).toHaveBeenCalledWith({ userId: 'alice' });
+
+    // A single louder sample from someone else does not switch the speaker
+    Object.assign(levels, { alice: 0.1, bob: 0.6 });
+    await vi.advanceTimersByTimeAsync(100);
+    Object.assign(levels, { alice: 0.5, bob: 0.1 });
+    await vi.advanceTimersByTimeAsync(100);
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(manager.activeSpeaker).toBe('alice');
+  });
+
+  it('defers to the server once it announces audio levels', async () => {
+    manager.handleServerLevels();
+    Object.assign(levels, { alice: 0.5, bob: 0.1 });
+    await vi.advanceTimersByTimeAsync(500);
+    expect(listener).not.toHaveBeenCalled();
+
+    manager.handleServerActiveSpeaker('bob');
+    expect(listener).toHaveBeenCalledWith({ userId: 'bob' });
+  });
+});
@@ -0,0 +1,71 @@
+import { describe, it, expect } from 'vitest';
+import { AdaptiveSenderController } from '../src/sdk/AdaptiveSenderController';
+import { DEFAULT_VIDEO_ENCODINGS, MediaStats } from '../src/types/media';
+
+function feed(controller: AdaptiveSenderController, stats: MediaStats, samples: number) {
+  const adaptations = [];
+  for (let i = 0; i < samples; i++) {
+    const adaptation = controller.evaluate(stats);
+    if (adaptation) {
+      adaptations.push(adaptation);
+    }
+  }
+  return adaptations;
+}
+
+describe('AdaptiveSenderController', () => {
+  const good: MediaStats = { fractionLost: 0, roundTripTime: 0.05 };
+
+  it('drops the top encoding under sustained loss and restores it on recovery', () => {
+    const controller = new AdaptiveSenderController(DEFAULT_VIDEO_ENCODINGS);
+
+    // A single lossy sample is tolerated
+    expect(controller.evaluate({ fractionLost: 0.1, roundTripTime: 0.05 })).toBeUndefined();
+    expect(controller.evaluate({ fractionLost: 0.1, roundTripTime: 0.05 })).toEqual({
+      maxSpatialLayer: 1,
+      maxFramerate: undefined,
+      reason: 'congestion',
+    });
+
+    expect(feed(controller, good, 4)).toEqual([]);
+    expect(feed(controller, good, 1)).toEqual([
+      { maxSpatialLayer: 2, maxFramerate: undefined, reason: 'recovered' },
+    ]);
+  });
+
+  it('limits layers to the estimated available bandwidth', () => {
+    const controller = new AdaptiveSenderController(DEFAULT_VIDEO_ENCODINGS);
+
+    // 1.2 Mbps cannot carry the two lower layers (1.5 Mbps), only the lowest one
+    const adaptations = feed(controller, { ...good, availableOutgoingBitrate: 1200000 }, 6);
+    expect(adaptations.map(adaptation => adaptation.maxSpatialLayer)).toEqual([1, 0]);
+    expect(adaptations.every(adaptation => adaptation.reason === 'bandwidth')).toBe(true);
+  });
+
+  it('caps the frame rate while the CPU is the limit', () => {
+    const controller = new AdaptiveSenderController(DEFAULT_VIDEO_ENCODINGS);
+
+    expect(feed(controller, { ...good, cpuLimited: true }, 3)).toEqual([
+      { maxSpatialLayer: 2, maxFramerate: 15, reason: 'cpu' },
+    ]);
+    expect(feed(controller, good, 5)).toEqual([
+      { maxSpatialLayer: 2, maxFramerate: undefined, reason: 'recovered' },
+    ]);
+  });
+
+  it('keeps frame rates configured per encoding through a CPU limit', () => {
+    const controller = new AdaptiveSenderController([
+      { maxBitrate: 500000, maxFramerate: 10 },
+      { maxBitrate: 1000000 },
+      { maxBitrate: 2000000, maxFramerate: 30 },
+    ]);
+    expect(controller.encodingFramerates()).toEqual([10, undefined, 30]);
+
+    feed(controller, { ...good, cpuLimited: true }, 2);
+    // Capping never raises an encoding configured below the cap
+    expect(controller.encodingFramerates()).toEqual([10, 15, 15]);
+
+    feed(controller, good, 5);
+    expect(controller.encodingFramerates()).toEqual([10, undefined, 30]);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BrowserWebSocketTransport } from '../src/sdk/transports/BrowserWebSocketTransport';
+
+class FakeBrowserWebSocket {
+  static instance: FakeBrowserWebSocket;
+  onopen: (() => void) | null = null;
+  onmessage: ((event: { data: unknown }) => void) | null = null;
+  onerror: (() => void) | null = null;
+  onclose: (() => void) | null = null;
+  send = vi.fn();
+  close = vi.fn();
+
+  constructor(public url: string) {
+    FakeBrowserWebSocket.instance = this;
+  }
+}
+
+describe('BrowserWebSocketTransport', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('reports the native socket events and closes once when terminated', () => {
+    vi.stubGlobal('WebSocket', FakeBrowserWebSocket);
+    const listener = { onOpen: vi.fn(), onMessage: vi.fn(), onError: vi.fn(), onClose: vi.fn() };
+    const transport = new BrowserWebSocketTransport('ws://example.test');
+    transport.connect(listener);
+    const socket = FakeBrowserWebSocket.instance;
+    expect(socket.url).toBe('ws://example.test');
+
+    socket.onopen!();
+    expect(transport.state).toBe('open');
+    socket.onmessage!({ data: '{"type":"pong"}' });
+    expect(listener.onMessage).toHaveBeenCalledWith('{"type":"pong"}');
+    transport.send('hello');
+    expect(socket.send).toHaveBeenCalledWith('hello');
+
+    transport.terminate();
+    expect(socket.close).toHaveBeenCalled();
+    expect(socket.onclose).toBeNull();
+    expect(transport.state).toBe('closed');
+    expect(listener.onClose).toHaveBeenCalledTimes(1);
+  });
+});
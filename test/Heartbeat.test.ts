@@ -0,0 +1,55 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Heartbeat } from '../src/sdk/Heartbeat';
+
+describe('Heartbeat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('measures the round trip of answered pings', () => {
+    const onDead = vi.fn();
+    const heartbeat = new Heartbeat({ interval: 1000, maxMissed: 2 }, onDead);
+    const send = vi.fn();
+    heartbeat.start(send);
+
+    vi.advanceTimersByTime(1000);
+    expect(send).toHaveBeenCalledWith({ type: 'ping', timestamp: Date.now() });
+    const { timestamp } = send.mock.calls[0][0];
+
+    vi.advanceTimersByTime(40);
+    heartbeat.handlePong(timestamp);
+    expect(heartbeat.rtt).toBe(40);
+
+    // Answered pings never add up to a dead connection
+    for (let i = 0; i < 5; i++) {
+      vi.advanceTimersByTime(1000);
+      heartbeat.handlePong(send.mock.lastCall![0].timestamp);
+    }
+    expect(onDead).not.toHaveBeenCalled();
+    heartbeat.stop();
+  });
+
+  it('declares the connection dead after too many unanswered pings in a row', () => {
+    const onDead = vi.fn();
+    const heartbeat = new Heartbeat({ interval: 1000, maxMissed: 3 }, onDead);
+    const send = vi.fn();
+    heartbeat.start(send);
+
+    // One late pong resets the count
+    vi.advanceTimersByTime(3000);
+    heartbeat.handlePong(send.mock.lastCall![0].timestamp);
+    vi.advanceTimersByTime(3000);
+    expect(onDead).not.toHaveBeenCalled();
+
+    vi.advanceTimersByTime(1000);
+    expect(onDead).toHaveBeenCalledTimes(1);
+
+    // Stopped after giving up
+    vi.advanceTimersByTime(5000);
+    expect(send).toHaveBeenCalledTimes(6);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LoopbackTransport } from '../src/sdk/transports/LoopbackTransport';
+import { ClientConnection, LoopbackServer } from '../src/types/transport';
+
+function createServer() {
+  const received: string[] = [];
+  const disconnect = vi.fn();
+  let client: ClientConnection | undefined;
+  const server: LoopbackServer = {
+    acceptLoopback: connection => {
+      client = connection;
+      return { receive: data => received.push(data), disconnect };
+    },
+  };
+  return { server, received, disconnect, client: () => client! };
+}
+
+function createListener() {
+  return { onOpen: vi.fn(), onMessage: vi.fn(), onError: vi.fn(), onClose: vi.fn() };
+}
+
+describe('LoopbackTransport', () => {
+  it('opens asynchronously and delivers messages in order both ways', async () => {
+    const { server, received, client } = createServer();
+    const listener = createListener();
+    const transport = new LoopbackTransport(server);
+
+    transport.connect(listener);
+    expect(transport.state).toBe('connecting');
+    expect(() => transport.send('early')).toThrow('not open');
+
+    await vi.waitFor(() => expect(listener.onOpen).toHaveBeenCalled());
+    expect(transport.state).toBe('open');
+    expect(client().readyState).toBe(1);
+
+    transport.send('one');
+    transport.send('two');
+    client().send('three');
+    client().send('four');
+    expect(received).toEqual([]);
+
+    await vi.waitFor(() => expect(listener.onMessage).toHaveBeenCalledTimes(2));
+    expect(received).toEqual(['one', 'two']);
+    expect(listener.onMessage.mock.calls).toEqual([['three'], ['four']]);
+  });
+
+  it('reports a disconnect to both sides when either one terminates', async () => {
+    const { server, disconnect, client } = createServer();
+    const listener = createListener();
+    const transport = new LoopbackTransport(server);
+    transport.connect(listener);
+    await vi.waitFor(() => expect(listener.onOpen).toHaveBeenCalled());
+
+    // The server dropping the client, e.g. when it stops sending heartbeats
+    client().terminate();
+    expect(transport.state).toBe('closed');
+    expect(client().readyState).toBe(3);
+
+    await vi.waitFor(() => expect(listener.onClose).toHaveBeenCalledTimes(1));
+    expect(disconnect).toHaveBeenCalledTimes(1);
+
+    transport.terminate();
+    await new Promise(resolve => setTimeout(resolve, 10));
+    expect(listener.onClose).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,66 @@
+import { describe, it, expect, vi } from 'vitest';
+import { NetworkQualityManager, scoreLink } from '../src/sdk/managers/NetworkQualityManager';
+import { CallStats, ConsumerStats, MediaStats } from '../src/types/media';
+
+function callStats(send?: MediaStats, consumers: ConsumerStats[] = []): CallStats {
+  return {
+    timestamp: Date.now(),
+    send,
+    recv: consumers.length > 0 ? { roundTripTime: 0.05 } : undefined,
+    producers: send ? [{ producerId: 'local-video', kind: 'video', ...send }] : [],
+    consumers,
+  };
+}
+
+describe('NetworkQualityManager', () => {
+  it('scores a link by its worst metric', () => {
+    expect(scoreLink(0, 0.05, 0.01)).toBe(5);
+    expect(scoreLink(0.04, 0.05, 0.01)).toBe(3);
+    expect(scoreLink(0, 0.5, 0.01)).toBe(2);
+    expect(scoreLink(0.5, 2, 1)).toBe(0);
+    expect(scoreLink()).toBe(5);
+  });
+
+  it('requires a new score to persist before reporting it', () => {
+    const quality = new NetworkQualityManager();
+    const listener = vi.fn();
+    quality.on('networkQualityChanged', listener);
+
+    quality.update(callStats({ fractionLost: 0, roundTripTime: 0.05 }), 'alice');
+    expect(listener).toHaveBeenLastCalledWith({ userId: 'alice', uplink: 5, downlink: undefined });
+
+    // A single lossy sample does not flap the indicator
+    quality.update(callStats({ fractionLost: 0.15, roundTripTime: 0.05 }), 'alice');
+    quality.update(callStats({ fractionLost: 0, roundTripTime: 0.05 }), 'alice');
+    expect(listener).toHaveBeenCalledTimes(1);
+
+    quality.update(callStats({ fractionLost: 0.15, roundTripTime: 0.05 }), 'alice');
+    quality.update(callStats({ fractionLost: 0.15, roundTripTime: 0.05 }), 'alice');
+    expect(listener).toHaveBeenCalledTimes(2);
+    expect(listener).toHaveBeenLastCalledWith({ userId: 'alice', uplink: 1, downlink: undefined });
+    expect(quality.qualityOf('alice')).toEqual({ uplink: 1, downlink: undefined });
+  });
+
+  it('scores remote downlinks from packet loss between samples', () => {
+    const quality = new NetworkQualityManager();
+    const consumer = (packetsReceived: number, packetsLost: number): ConsumerStats => ({
+      producerId: 'bob-video',
+      userId: 'bob',
+      kind: 'video',
+      packetsReceived,
+      packetsLost,
+    });
+
+    quality.update(callStats(undefined, [consumer(1000, 0)]), 'alice');
+    expect(quality.qualityOf('bob')).toEqual({ downlink: 5 });
+
+    // 10% loss over the last interval, sustained for two samples
+    quality.update(callStats(undefined, [consumer(1900, 100)]), 'alice');
+    quality.update(callStats(undefined, [consumer(2800, 200)]), 'alice');
+    expect(quality.qualityOf('bob')).toEqual({ downlink: 1 });
+
+    // Participants we no longer receive from are dropped
+    quality.update(callStats(), 'alice');
+    expect(quality.qualityOf('bob')).toEqual({});
+  });
+});
@@ -0,0 +1,63 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { OutboundBuffer } from '../src/sdk/OutboundBuffer';
+import { SignalingUnavailableError } from '../src/sdk/errors';
+import { DEFAULT_CLIENT_OPTIONS } from '../src/types/options';
+
+describe('OutboundBuffer', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('sends held messages in order and coalesces state updates for the same target', async () => {
+    const buffer = new OutboundBuffer(DEFAULT_CLIENT_OPTIONS.outboundBuffer);
+    const sent: string[] = [];
+    const deliver = (label: string) => async () => {
+      sent.push(label);
+      return label;
+    };
+
+    const chat = buffer.hold({ type: 'chatMessage', text: 'hi' }, deliver('chat'));
+    const pause = buffer.hold({ type: 'pauseProducer', producerId: 'p1' }, deliver('pause p1'));
+    const other = buffer.hold({ type: 'pauseProducer', producerId: 'p2' }, deliver('pause p2'));
+    const repeated = buffer.hold({ type: 'pauseProducer', producerId: 'p1' }, deliver('again'));
+    await expect(
+      buffer.hold({ type: 'reportAudioLevel', level: 0.5 }, deliver('level'))
+    ).rejects.toBeInstanceOf(SignalingUnavailableError);
+    expect(buffer.size).toBe(3);
+
+    buffer.flush();
+
+    await expect(Promise.all([chat, pause, other, repeated])).resolves.toEqual([
+      'chat',
+      'again',
+      'pause p2',
+      'again',
+    ]);
+    expect(sent).toEqual(['chat', 'pause p2', 'again']);
+  });
+
+  it('rejects messages that do not fit, expire or are cleared', async () => {
+    const buffer = new OutboundBuffer({ maxMessages: 2, maxAge: 1000, policies: {} });
+    const deliver = vi.fn(async () => {});
+
+    const expired = buffer.hold({ type: 'chatMessage', text: 'first' }, deliver);
+    vi.advanceTimersByTime(500);
+    const cleared = buffer.hold({ type: 'chatMessage', text: 'second' }, deliver);
+    await expect(
+      buffer.hold({ type: 'chatMessage', text: 'third' }, deliver)
+    ).rejects.toMatchObject({ code: 'SIGNALING_UNAVAILABLE', requestType: 'chatMessage' });
+
+    vi.advanceTimersByTime(500);
+    await expect(expired).rejects.toThrow('not restored within 1000ms');
+    expect(buffer.size).toBe(1);
+
+    buffer.clear('session was not resumed');
+    await expect(cleared).rejects.toThrow("Cannot send 'chatMessage': session was not resumed");
+    buffer.flush();
+    expect(deliver).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,45 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ServerPool } from '../src/sdk/ServerPool';
+
+describe('ServerPool', () => {
+  it('returns to the last good server first and fails over through the others', () => {
+    const pool = new ServerPool(['ws://a', 'ws://b', 'ws://c']);
+    expect(pool.next()).toBe('ws://a');
+    pool.markHealthy('ws://a');
+
+    // A dropped connection is retried on the same server before failing over
+    expect(pool.next()).toBe('ws://a');
+    pool.markFailed('ws://a');
+    expect(pool.backoffLevel).toBe(0);
+    expect(pool.next()).toBe('ws://b');
+    pool.markFailed('ws://b');
+    expect(pool.next()).toBe('ws://c');
+    pool.markFailed('ws://c');
+
+    // Every server failed once, so attempts back off and start over at the last good one
+    expect(pool.backoffLevel).toBe(1);
+    expect(pool.next()).toBe('ws://a');
+    pool.markFailed('ws://a');
+    expect(pool.next()).toBe('ws://b');
+    pool.markHealthy('ws://b');
+    expect(pool.lastGood).toBe('ws://b');
+    expect(pool.next()).toBe('ws://b');
+  });
+
+  it('asks the resolver for the current servers before every pick', async () => {
+    const resolver = vi
+      .fn()
+      .mockResolvedValueOnce(['ws://a', 'ws://b'])
+      .mockResolvedValueOnce(['ws://c'])
+      .mockResolvedValueOnce([]);
+    const pool = new ServerPool(resolver);
+
+    expect(pool.next()).toBeUndefined();
+    await expect(pool.pick()).resolves.toBe('ws://a');
+    await expect(pool.pick()).resolves.toBe('ws://c');
+    await expect(pool.pick()).rejects.toThrow('Server resolver returned no URLs');
+    expect(resolver).toHaveBeenCalledTimes(3);
+
+    expect(() => new ServerPool([])).toThrow('expected at least one URL');
+  });
+});
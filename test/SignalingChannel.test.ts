@@ -1,5 +1,6 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeAll, beforeEach } from 'vitest';
 import { SignalingChannel } from '../src/sdk/SignalingChannel';
+import { WebSocketTransport } from '../src/sdk/transports/WebSocketTransport';
 import { MockWebSocket } from '../src/types/test';
 
 let mockWebSocketInstance: MockWebSocket;
@@ -8,6 +9,9 @@ vi.mock('ws', () => ({
   default: vi.fn().mockImplementation(() => mockWebSocketInstance)
 }));
 
+// The ws package loads on the first connect, so have it ready for the synchronous mock
+beforeAll(() => WebSocketTransport.preload());
+
 describe('SignalingChannel', () => {
   let signaling: SignalingChannel;
 
@@ -30,6 +34,10 @@ describe('SignalingChannel', () => {
         }
         this.listeners.get(event)!.push(callback);
       }),
+
+      close: vi.fn().mockImplementation(function(this: any) {
+        this.simulateClose();
+      }),
       
       simulateOpen() {
         this.readyState = 1;
@@ -185,6 +193,76 @@ describe('SignalingChannel', () => {
     });
   });
 
+  describe('Request/Response Correlation', () => {
+    it('resolves with the response carrying the same requestId', async () => {
+      signaling = new SignalingChannel('ws://test');
+      mockWebSocketInstance.simulateOpen();
+
+      const promise = signaling.request({ type: 'createWebRtcTransport', consuming: true });
+      const sent = JSON.parse(mockWebSocketInstance.sentMessages[0]);
+      expect(sent.requestId).toEqual(expect.any(String));
+
+      // An unrelated response must not settle the request
+      mockWebSocketInstance.simulateMessage({
+        type: 'webRtcTransportCreated',
+        transportId: 'other',
+        requestId: 'unrelated',
+      });
+      mockWebSocketInstance.simulateMessage({
+        type: 'webRtcTransportCreated',
+        transportId: 'recv',
+        requestId: sent.requestId,
+      });
+
+      await expect(promise).resolves.toMatchObject({ transportId: 'recv' });
+    });
+
+    it('rejects with the server error code on error responses', async () => {
+      signaling = new SignalingChannel('ws://test');
+      mockWebSocketInstance.simulateOpen();
+
+      const errorHandler = vi.fn();
+      signaling.on('error', errorHandler);
+
+      const promise = signaling.request({ type: 'consume' } as any);
+      const sent = JSON.parse(mockWebSocketInstance.sentMessages[0]);
+
+      mockWebSocketInstance.simulateMessage({
+        type: 'error',
+        message: 'Producer not found',
+        code: 'PRODUCER_NOT_FOUND',
+        requestId: sent.requestId,
+      });
+
+      await expect(promise).rejects.toMatchObject({
+        name: 'SignalingRequestError',
+        code: 'PRODUCER_NOT_FOUND',
+        requestType: 'consume',
+      });
+      expect(errorHandler).not.toHaveBeenCalled();
+    });
+
+    it('rejects when no response arrives in time', async () => {
+      signaling = new SignalingChannel('ws://test');
+      mockWebSocketInstance.simulateOpen();
+
+      await expect(signaling.request({ type: 'produce' } as any, 20)).rejects.toMatchObject({
+        name: 'SignalingTimeoutError',
+        code: 'TIMEOUT',
+      });
+    });
+
+    it('rejects pending requests when the connection closes', async () => {
+      signaling = new SignalingChannel('ws://test');
+      mockWebSocketInstance.simulateOpen();
+
+      const promise = signaling.request({ type: 'join', roomId: 'room', userId: 'user' });
+      mockWebSocketInstance.simulateClose();
+
+      await expect(promise).rejects.toMatchObject({ code: 'CONNECTION_CLOSED' });
+    });
+  });
+
   describe('Connection State', () => {
     it('tracks connection state correctly', () => {
       signaling = new SignalingChannel('ws://test');
@@ -0,0 +1,1519 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import WebSocket from 'ws';
+import { SignalingServer } from '../src/server/SignalingServer';
+import { createToken } from '../src/server/auth';
+import { AuthenticationError } from '../src/sdk/errors';
+import { LoopbackTransport } from '../src/sdk/transports/LoopbackTransport';
+import { SignalingTransport } from '../src/types/transport';
+import { VideoCallClient } from '../src/sdk/VideoCallClient';
+import { TypedEventEmitter } from '../src/utils/TypedEventEmitter';
+
+// Mock mediasoup-client with transports that drive the real signaling handlers
+vi.mock('mediasoup-client', () => {
+  // Message listeners of data consumers keyed by data producer, standing in for SCTP routing
+  const dataListeners = new Map<string, Set<Function>>();
+
+  const createTransport = (options: { id: string }) => {
+    const handlers = new Map<string, Function>();
+    return {
+      id: options.id,
+      on: vi.fn((event: string, handler: Function) => handlers.set(event, handler)),
+      produce: vi.fn(async ({ track, encodings, appData }: any) => {
+        const id = await new Promise<string>((resolve, reject) =>
+          handlers.get('produce')!(
+            { kind: track.kind, rtpParameters: { encodings }, appData },
+            ({ id }: { id: string }) => resolve(id),
+            reject
+          )
+        );
+        const listeners = new Map<string, Function>();
+        return {
+          id,
+          kind: track.kind,
+          track,
+          on: vi.fn((event: string, listener: Function) => listeners.set(event, listener)),
+          emit: (event: string) => listeners.get(event)?.(),
+          pause: vi.fn(),
+          resume: vi.fn(),
+          replaceTrack: vi.fn(async () => {}),
+          getStats: vi.fn(
+            async () =>
+              new Map([['source', { type: 'media-source', kind: track.kind, audioLevel: 0.6 }]])
+          ),
+          close: vi.fn(),
+        };
+      }),
+      consume: vi.fn(async ({ id, producerId, kind }: any) => ({
+        id,
+        producerId,
+        kind,
+        track: { id: `track-${id}`, kind },
+        on: vi.fn(),
+        pause: vi.fn(),
+        resume: vi.fn(),
+        close: vi.fn(),
+      })),
+      produceData: vi.fn(async ({ label, ordered }: any) => {
+        const id = await new Promise<string>((resolve, reject) =>
+          handlers.get('producedata')!(
+            { sctpStreamParameters: { streamId: 0, ordered: ordered ?? true }, label },
+            ({ id }: { id: string }) => resolve(id),
+            reject
+          )
+        );
+        return {
+          id,
+          label,
+          readyState: 'open',
+          send: vi.fn((data: unknown) =>
+            dataListeners.get(id)?.forEach(listener => listener(data))
+          ),
+          close: vi.fn(),
+        };
+      }),
+      consumeData: vi.fn(async ({ id, dataProducerId, label }: any) => ({
+        id,
+        dataProducerId,
+        label,
+        on: vi.fn((event: string, listener: Function) => {
+          if (event === 'message') {
+            const listeners = dataListeners.get(dataProducerId) ?? new Set();
+            dataListeners.set(dataProducerId, listeners.add(listener));
+          }
+        }),
+        close: vi.fn(),
+      })),
+      restartIce: vi.fn(async () => {}),
+      close: vi.fn(),
+    };
+  };
+
+  return {
+    Device: vi.fn().mockImplementation(() => ({
+      load: vi.fn().mockResolvedValue(undefined),
+      loaded: true,
+      rtpCapabilities: { codecs: [], headerExtensions: [] },
+      createSendTransport: vi.fn(createTransport),
+      createRecvTransport: vi.fn(createTransport),
+    })),
+  };
+});
+
+function createFakeStream(kind: 'audio' | 'video', id: string) {
+  const track = { id, kind, readyState: 'live', stop: vi.fn() };
+  return {
+    getVideoTracks: () => (kind === 'video' ? [track] : []),
+    getAudioTracks: () => (kind === 'audio' ? [track] : []),
+    getTracks: () => [track],
+  };
+}
+
+// Capture devices reported by enumerateDevices and their change listeners
+let fakeDevices: Array<{ deviceId: string; kind: string; label: string }> = [];
+const deviceChangeListeners = new Set<() => void>();
+
+// Mock getUserMedia, getDisplayMedia and device enumeration
+Object.defineProperty(global, 'navigator', {
+  value: {
+    mediaDevices: {
+      getUserMedia: vi.fn().mockImplementation(async (constraints: MediaStreamConstraints) => {
+        const kind = constraints.video ? 'video' : 'audio';
+        const deviceId = (constraints[kind] as MediaTrackConstraints).deviceId as
+          | { exact: string }
+          | undefined;
+        return createFakeStream(kind, deviceId?.exact ?? `${kind}-track`);
+      }),
+      enumerateDevices: vi.fn(async () => fakeDevices),
+      addEventListener: vi.fn((event: string, listener: () => void) => {
+        if (event === 'devicechange') {
+          deviceChangeListeners.add(listener);
+        }
+      }),
+      removeEventListener: vi.fn((event: string, listener: () => void) => {
+        if (event === 'devicechange') {
+          deviceChangeListeners.delete(listener);
+        }
+      }),
+      getDisplayMedia: vi.fn().mockImplementation(async () => createFakeStream('video', 'screen')),
+    },
+  },
+  writable: true,
+});
+
+/**
+ * Raw protocol client that records every server message
+ */
+class TestPeer {
+  private messages: any[] = [];
+  private waiters: Array<{
+    predicate: (message: any) => boolean;
+    resolve: (message: any) => void;
+  }> = [];
+  private requestCounter = 0;
+
+  private constructor(private socket: WebSocket) {
+    socket.on('message', data => {
+      const message = JSON.parse(data.toString());
+      const waiter = this.waiters.find(w => w.predicate(message));
+      if (waiter) {
+        this.waiters.splice(this.waiters.indexOf(waiter), 1);
+        waiter.resolve(message);
+      } else {
+        this.messages.push(message);
+      }
+    });
+  }
+
+  static connect(port: number): Promise<TestPeer> {
+    const socket = new WebSocket(`ws://localhost:${port}`);
+    return new Promise((resolve, reject) => {
+      socket.once('open', () => resolve(new TestPeer(socket)));
+      socket.once('error', reject);
+    });
+  }
+
+  waitFor(predicate: (message: any) => boolean): Promise<any> {
+    const index = this.messages.findIndex(predicate);
+    if (index > -1) {
+      return Promise.resolve(this.messages.splice(index, 1)[0]);
+    }
+    return new Promise(resolve => this.waiters.push({ predicate, resolve }));
+  }
+
+  send(message: Record<string, unknown>): void {
+    this.sendRaw(JSON.stringify(message));
+  }
+
+  sendRaw(raw: string): void {
+    this.socket.send(raw);
+  }
+
+  request(message: Record<string, unknown>): Promise<any> {
+    const requestId = `req-${++this.requestCounter}`;
+    this.send({ ...message, requestId });
+    return this.waitFor(response => response.requestId === requestId);
+  }
+
+  received(type: string): any[] {
+    return this.messages.filter(message => message.type === type);
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+/**
+ * Resolve with the next payload of an SDK event
+ */
+function waitForEvent<T extends Record<string, any>, K extends keyof T>(
+  emitter: TypedEventEmitter<T>,
+  event: K
+): Promise<T[K]> {
+  return new Promise(resolve => emitter.once(event, resolve as any));
+}
+
+/**
+ * Give the server time to deliver messages that are not expected to arrive
+ */
+const settle = () => new Promise(resolve => setTimeout(resolve, 50));
+
+describe('SignalingServer', () => {
+  let server: SignalingServer;
+  let port: number;
+
+  beforeEach(async () => {
+    // Disconnected peers are released right away unless a test covers session resumption
+    server = new SignalingServer({ port: 0, sessionGracePeriod: 0 });
+    port = await server.whenListening();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  /**
+   * Join a room and create a send transport, returning the peer and transport id
+   */
+  async function joinWithSendTransport(roomId: string, userId: string) {
+    const peer = await TestPeer.connect(port);
+    await peer.request({ type: 'join', roomId, userId });
+    const transport = await peer.request({ type: 'createWebRtcTransport', consuming: false });
+    return { peer, transportId: transport.transportId as string };
+  }
+
+  describe('Room State', () => {
+    it('includes existing peers and their producers in the join response', async () => {
+      const alice = await joinWithSendTransport('room', 'alice');
+      const produced = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'audio',
+        rtpParameters: {},
+      });
+
+      const bob = await TestPeer.connect(port);
+      const joined = await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+
+      expect(joined.peers).toEqual([
+        {
+          userId: 'alice',
+          role: 'host',
+          producers: [{ id: produced.producerId, kind: 'audio' }],
+          dataProducers: [],
+        },
+      ]);
+    });
+
+    it('requires joining a room before other requests', async () => {
+      const peer = await TestPeer.connect(port);
+      const response = await peer.request({ type: 'createWebRtcTransport', consuming: false });
+
+      expect(response).toMatchObject({ type: 'error', code: 'NOT_IN_ROOM' });
+    });
+
+    it('reports parse failures apart from handler failures', async () => {
+      const peer = await TestPeer.connect(port);
+      peer.sendRaw('{"type":');
+      await expect(peer.waitFor(message => message.type === 'error')).resolves.toMatchObject({
+        code: 'PARSE_ERROR',
+      });
+
+      // Handler failures are answered under the id of the failed request
+      await peer.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      vi.spyOn(server as any, 'handleChatMessage').mockImplementation(() => {
+        throw new Error('boom');
+      });
+      await expect(peer.request({ type: 'chatMessage', text: 'hi' })).resolves.toMatchObject({
+        type: 'error',
+        code: 'INTERNAL_ERROR',
+      });
+    });
+
+    it('rejects consuming a producer from another room', async () => {
+      const alice = await joinWithSendTransport('room-a', 'alice');
+      const produced = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'video',
+        rtpParameters: {},
+      });
+
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room-b', userId: 'bob' });
+      const response = await bob.request({
+        type: 'consume',
+        transportId: 'any',
+        producerId: produced.producerId,
+        rtpCapabilities: {},
+      });
+
+      expect(response).toMatchObject({ type: 'error', code: 'PRODUCER_NOT_FOUND' });
+    });
+  });
+
+  describe('Producer Notifications', () => {
+    it('broadcasts newProducer to other room members only', async () => {
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const carol = await TestPeer.connect(port);
+      await carol.request({ type: 'join', roomId: 'other-room', userId: 'carol' });
+
+      const alice = await joinWithSendTransport('room', 'alice');
+      const produced = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'video',
+        rtpParameters: {},
+      });
+
+      const announced = await bob.waitFor(message => message.type === 'newProducer');
+      expect(announced).toEqual({
+        type: 'newProducer',
+        producerId: produced.producerId,
+        userId: 'alice',
+        kind: 'video',
+        source: 'camera',
+      });
+
+      const consumed = await bob.request({
+        type: 'consume',
+        transportId: 'any',
+        producerId: produced.producerId,
+        rtpCapabilities: {},
+      });
+      expect(consumed).toMatchObject({ type: 'consumerCreated', kind: 'video' });
+
+      await settle();
+      expect(carol.received('newProducer')).toHaveLength(0);
+      expect(alice.peer.received('newProducer')).toHaveLength(0);
+    });
+
+    it('broadcasts producerClosed when a producer is closed', async () => {
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const alice = await joinWithSendTransport('room', 'alice');
+      const produced = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'video',
+        rtpParameters: {},
+      });
+
+      const response = await alice.peer.request({
+        type: 'closeProducer',
+        producerId: produced.producerId,
+      });
+      expect(response).toMatchObject({ type: 'producerClosed', producerId: produced.producerId });
+
+      const closed = await bob.waitFor(message => message.type === 'producerClosed');
+      expect(closed).toEqual({
+        type: 'producerClosed',
+        producerId: produced.producerId,
+        userId: 'alice',
+      });
+    });
+
+    it('broadcasts mute changes and reports them to later consumers', async () => {
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const alice = await joinWithSendTransport('room', 'alice');
+      const produced = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'audio',
+        rtpParameters: {},
+      });
+
+      const response = await alice.peer.request({
+        type: 'pauseProducer',
+        producerId: produced.producerId,
+      });
+      expect(response).toMatchObject({ type: 'producerPaused', producerId: produced.producerId });
+
+      const paused = await bob.waitFor(message => message.type === 'producerPaused');
+      expect(paused).toEqual({
+        type: 'producerPaused',
+        producerId: produced.producerId,
+        userId: 'alice',
+      });
+
+      const consumed = await bob.request({
+        type: 'consume',
+        transportId: 'any',
+        producerId: produced.producerId,
+        rtpCapabilities: {},
+      });
+      expect(consumed.producerPaused).toBe(true);
+
+      await alice.peer.request({ type: 'resumeProducer', producerId: produced.producerId });
+      await expect(
+        bob.waitFor(message => message.type === 'producerResumed')
+      ).resolves.toMatchObject({ producerId: produced.producerId, userId: 'alice' });
+    });
+
+    it('routes data producers to consumers in the same room', async () => {
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const alice = await joinWithSendTransport('room', 'alice');
+
+      const produced = await alice.peer.request({
+        type: 'produceData',
+        transportId: alice.transportId,
+        sctpStreamParameters: { streamId: 3, ordered: false, maxRetransmits: 0 },
+        label: 'cursor',
+      });
+      expect(produced).toMatchObject({ type: 'dataProducerCreated', label: 'cursor' });
+
+      const announced = await bob.waitFor(message => message.type === 'newDataProducer');
+      expect(announced).toMatchObject({
+        dataProducerId: produced.dataProducerId,
+        userId: 'alice',
+        label: 'cursor',
+      });
+
+      const recv = await bob.request({ type: 'createWebRtcTransport', consuming: true });
+      const consumed = await bob.request({
+        type: 'consumeData',
+        transportId: recv.transportId,
+        dataProducerId: produced.dataProducerId,
+      });
+      expect(consumed).toMatchObject({
+        type: 'dataConsumerCreated',
+        dataProducerId: produced.dataProducerId,
+        label: 'cursor',
+        sctpStreamParameters: { streamId: 0, ordered: false, maxRetransmits: 0 },
+      });
+
+      alice.peer.close();
+      await expect(
+        bob.waitFor(message => message.type === 'dataProducerClosed')
+      ).resolves.toMatchObject({ dataProducerId: produced.dataProducerId, userId: 'alice' });
+    });
+
+    it('clamps preferred consumer layers to the producer encodings', async () => {
+      const alice = await joinWithSendTransport('room', 'alice');
+      const video = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'video',
+        rtpParameters: { encodings: [{ maxBitrate: 500000 }, { maxBitrate: 1000000 }] },
+      });
+      const audio = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'audio',
+        rtpParameters: {},
+      });
+
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const consume = (producerId: string) =>
+        bob.request({ type: 'consume', transportId: 'any', producerId, rtpCapabilities: {} });
+      const videoConsumer = await consume(video.producerId);
+      const audioConsumer = await consume(audio.producerId);
+
+      const response = await bob.request({
+        type: 'setConsumerPreferredLayers',
+        consumerId: videoConsumer.consumerId,
+        spatialLayer: 5,
+      });
+      expect(response).toMatchObject({
+        type: 'consumerLayersChanged',
+        producerId: video.producerId,
+        spatialLayer: 1,
+        temporalLayer: 2,
+      });
+
+      const invalid = await bob.request({
+        type: 'setConsumerPreferredLayers',
+        consumerId: audioConsumer.consumerId,
+        spatialLayer: 0,
+      });
+      expect(invalid).toMatchObject({ type: 'error', code: 'INVALID_LAYERS' });
+    });
+
+    it('broadcasts producerClosed for every producer of a disconnected peer', async () => {
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const alice = await joinWithSendTransport('room', 'alice');
+      for (const kind of ['audio', 'video']) {
+        await alice.peer.request({
+          type: 'produce',
+          transportId: alice.transportId,
+          kind,
+          rtpParameters: {},
+        });
+      }
+
+      alice.peer.close();
+
+      await bob.waitFor(message => message.type === 'producerClosed');
+      await bob.waitFor(message => message.type === 'producerClosed');
+    });
+  });
+
+  describe('Membership Notifications', () => {
+    it('announces joining peers to the rest of the room', async () => {
+      const alice = await TestPeer.connect(port);
+      await alice.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+
+      const joined = await alice.waitFor(message => message.type === 'peerJoined');
+      expect(joined).toEqual({ type: 'peerJoined', userId: 'bob', role: 'attendee' });
+
+      await settle();
+      expect(bob.received('peerJoined')).toHaveLength(0);
+    });
+
+    it('releases producers and announces peerLeft on leave', async () => {
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const alice = await joinWithSendTransport('room', 'alice');
+      const produced = await alice.peer.request({
+        type: 'produce',
+        transportId: alice.transportId,
+        kind: 'video',
+        rtpParameters: {},
+      });
+
+      alice.peer.send({ type: 'leave' });
+
+      const closed = await bob.waitFor(message => message.type === 'producerClosed');
+      expect(closed).toMatchObject({ producerId: produced.producerId, userId: 'alice' });
+      const left = await bob.waitFor(message => message.type === 'peerLeft');
+      expect(left).toEqual({ type: 'peerLeft', userId: 'alice' });
+
+      // The departed peer no longer owns anything on the server
+      const response = await alice.peer.request({ type: 'closeProducer', producerId: 'x' });
+      expect(response).toMatchObject({ type: 'error', code: 'NOT_IN_ROOM' });
+    });
+
+    it('announces peerLeft when a peer disconnects', async () => {
+      const alice = await TestPeer.connect(port);
+      await alice.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+
+      bob.close();
+
+      const left = await alice.waitFor(message => message.type === 'peerLeft');
+      expect(left).toEqual({ type: 'peerLeft', userId: 'bob' });
+    });
+  });
+
+  describe('Chat', () => {
+    it('fans out chat messages and replays visible history on join', async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0, chatHistorySize: 2 });
+      port = await server.whenListening();
+
+      const alice = await TestPeer.connect(port);
+      await alice.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+
+      const sent = await alice.request({ type: 'chatMessage', text: ' hi all ' });
+      expect(sent).toMatchObject({ type: 'chatMessage', from: 'alice', text: 'hi all' });
+      await expect(bob.waitFor(message => message.type === 'chatMessage')).resolves.toEqual({
+        type: 'chatMessage',
+        id: sent.id,
+        from: 'alice',
+        text: 'hi all',
+        timestamp: sent.timestamp,
+      });
+
+      await bob.request({ type: 'chatMessage', text: 'psst', to: 'alice' });
+      await alice.request({ type: 'chatMessage', text: 'welcome' });
+
+      const carol = await TestPeer.connect(port);
+      const joined = await carol.request({ type: 'join', roomId: 'room', userId: 'carol' });
+      // Only the last two messages are kept, and the direct one is not carol's to see
+      expect(joined.chatHistory.map((message: any) => message.text)).toEqual(['welcome']);
+
+      await expect(
+        alice.request({ type: 'chatMessage', text: 'hello', to: 'dave' })
+      ).resolves.toMatchObject({ type: 'error', code: 'PEER_NOT_FOUND' });
+      await expect(alice.request({ type: 'chatMessage', text: '   ' })).resolves.toMatchObject({
+        type: 'error',
+        code: 'INVALID_CHAT_MESSAGE',
+      });
+    });
+  });
+
+  describe('Authentication', () => {
+    const secret = 'test-secret';
+
+    beforeEach(async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0, auth: { secret } });
+      port = await server.whenListening();
+    });
+
+    it('admits joins only with a valid token for the room and user', async () => {
+      const peer = await TestPeer.connect(port);
+      const expired = createToken({ sub: 'alice', room: 'room', exp: 1 }, secret);
+
+      await expect(
+        peer.request({ type: 'join', roomId: 'room', userId: 'alice' })
+      ).resolves.toMatchObject({ type: 'error', code: 'AUTH_INVALID' });
+      await expect(
+        peer.request({ type: 'join', roomId: 'room', userId: 'alice', token: expired })
+      ).resolves.toMatchObject({ type: 'error', code: 'AUTH_EXPIRED' });
+      await expect(
+        peer.request({
+          type: 'join',
+          roomId: 'other',
+          userId: 'alice',
+          token: createToken({ sub: 'alice', room: 'room' }, secret),
+        })
+      ).resolves.toMatchObject({ type: 'error', code: 'AUTH_INVALID' });
+      await expect(
+        peer.request({
+          type: 'join',
+          roomId: 'room',
+          userId: 'alice',
+          token: createToken({ sub: 'alice', room: 'room' }, 'wrong-secret'),
+        })
+      ).resolves.toMatchObject({ type: 'error', code: 'AUTH_INVALID' });
+
+      const joined = await peer.request({
+        type: 'join',
+        roomId: 'room',
+        userId: 'alice',
+        token: createToken({ sub: 'alice', room: 'room', exp: Date.now() / 1000 + 60 }, secret),
+      });
+      expect(joined).toMatchObject({ type: 'joined', roomId: 'room', userId: 'alice' });
+    });
+
+    it('resumes sessions only with a valid token for the same room and user', async () => {
+      const alice = await TestPeer.connect(port);
+      const { sessionId } = await alice.request({
+        type: 'join',
+        roomId: 'room',
+        userId: 'alice',
+        token: createToken({ sub: 'alice', room: 'room' }, secret),
+      });
+
+      const intruder = await TestPeer.connect(port);
+      await expect(intruder.request({ type: 'resume', sessionId })).resolves.toMatchObject({
+        type: 'error',
+        code: 'AUTH_INVALID',
+      });
+      await expect(
+        intruder.request({
+          type: 'resume',
+          sessionId,
+          token: createToken({ sub: 'mallory', room: 'room' }, secret),
+        })
+      ).resolves.toMatchObject({ type: 'error', code: 'AUTH_INVALID' });
+      await expect(
+        intruder.request({
+          type: 'resume',
+          sessionId,
+          token: createToken({ sub: 'alice', room: 'other' }, secret),
+        })
+      ).resolves.toMatchObject({ type: 'error', code: 'AUTH_INVALID' });
+      expect(alice.received('error')).toHaveLength(0);
+
+      const resumed = await TestPeer.connect(port);
+      await expect(
+        resumed.request({
+          type: 'resume',
+          sessionId,
+          token: createToken({ sub: 'alice', room: 'room' }, secret),
+        })
+      ).resolves.toMatchObject({ type: 'joined', userId: 'alice', sessionId });
+    });
+
+    it('reports rejected tokens and refreshes them before reconnecting', async () => {
+      const rejected = new VideoCallClient(`ws://localhost:${port}`);
+      const joining = rejected.joinCall('room', {
+        token: createToken({ sub: 'alice', room: 'room', exp: 1 }, secret),
+      });
+      await expect(joining).rejects.toBeInstanceOf(AuthenticationError);
+      await expect(joining).rejects.toMatchObject({ code: 'AUTH_EXPIRED' });
+      await rejected.leaveCall();
+
+      const tokenProvider = vi.fn(({ roomId, userId }) =>
+        createToken({ sub: userId, room: roomId, exp: Date.now() / 1000 + 60 }, secret)
+      );
+      const client = new VideoCallClient(`ws://localhost:${port}`, {
+        reconnection: { baseDelay: 10 },
+        tokenProvider,
+      });
+      const deviceReady = waitForEvent(client, 'deviceReady');
+      await client.joinCall('room', 'alice');
+      await deviceReady;
+      expect(tokenProvider).toHaveBeenCalledTimes(1);
+
+      const reconnected = waitForEvent(client, 'reconnected');
+      (client as any).connectionManager.signaling.terminate();
+      await reconnected;
+      expect(tokenProvider).toHaveBeenCalledTimes(2);
+      expect(tokenProvider).toHaveBeenLastCalledWith({ roomId: 'room', userId: 'alice' });
+
+      await client.leaveCall();
+    });
+  });
+
+  describe('Moderation', () => {
+    it('grants roles and checks them on moderator requests', async () => {
+      const host = await TestPeer.connect(port);
+      const hostJoined = await host.request({ type: 'join', roomId: 'room', userId: 'host' });
+      expect(hostJoined.role).toBe('host');
+      const bob = await TestPeer.connect(port);
+      const bobJoined = await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      expect(bobJoined.role).toBe('attendee');
+      expect(bobJoined.peers[0]).toMatchObject({ userId: 'host', role: 'host' });
+
+      await expect(
+        bob.request({ type: 'removeParticipant', userId: 'host' })
+      ).resolves.toMatchObject({ type: 'error', code: 'FORBIDDEN' });
+
+      const { producerId } = await bob.request({
+        type: 'produce',
+        transportId: (await bob.request({ type: 'createWebRtcTransport', consuming: false }))
+          .transportId,
+        kind: 'audio',
+        rtpParameters: { encodings: [{}] },
+      });
+      await expect(
+        host.request({ type: 'muteParticipant', userId: 'bob', kind: 'audio' })
+      ).resolves.toMatchObject({ type: 'participantMuted', userId: 'bob', by: 'host' });
+      await expect(bob.waitFor(message => message.type === 'participantMuted')).resolves.toEqual({
+        type: 'participantMuted',
+        userId: 'bob',
+        kind: 'audio',
+        by: 'host',
+      });
+      await expect(
+        host.waitFor(message => message.type === 'producerPaused')
+      ).resolves.toMatchObject({ producerId, userId: 'bob' });
+
+      await host.request({ type: 'lockRoom', locked: true });
+      await expect(bob.waitFor(message => message.type === 'roomLocked')).resolves.toMatchObject({
+        locked: true,
+        by: 'host',
+      });
+      const carol = await TestPeer.connect(port);
+      await expect(
+        carol.request({ type: 'join', roomId: 'room', userId: 'carol' })
+      ).resolves.toMatchObject({ type: 'lobbyWaiting', roomId: 'room', userId: 'carol' });
+      await host.waitFor(message => message.type === 'lobbyRequest' && message.userId === 'carol');
+      await host.request({ type: 'deny', userId: 'carol' });
+      await expect(carol.waitFor(message => message.type === 'lobbyDenied')).resolves.toEqual({
+        type: 'lobbyDenied',
+        by: 'host',
+      });
+
+      // Members may come back to a locked room, removed participants wait for admission
+      bob.close();
+      await host.waitFor(message => message.type === 'peerLeft');
+      const rejoined = await TestPeer.connect(port);
+      await expect(
+        rejoined.request({ type: 'join', roomId: 'room', userId: 'bob' })
+      ).resolves.toMatchObject({ type: 'joined', role: 'attendee', locked: true });
+
+      await expect(
+        host.request({ type: 'removeParticipant', userId: 'bob' })
+      ).resolves.toMatchObject({ type: 'participantRemoved', userId: 'bob' });
+      await expect(
+        rejoined.waitFor(message => message.type === 'removedFromRoom')
+      ).resolves.toMatchObject({ reason: 'removed', by: 'host' });
+      await expect(
+        rejoined.request({ type: 'join', roomId: 'room', userId: 'bob' })
+      ).resolves.toMatchObject({ type: 'lobbyWaiting' });
+
+      await host.request({ type: 'endCallForAll' });
+      const afterEnd = await TestPeer.connect(port);
+      await expect(
+        afterEnd.request({ type: 'join', roomId: 'room', userId: 'carol' })
+      ).resolves.toMatchObject({ type: 'joined', role: 'host', peers: [] });
+    });
+  });
+
+  describe('Lobby', () => {
+    it('holds joins in the lobby until a host admits them', async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0, lobby: true });
+      port = await server.whenListening();
+
+      const guest = await TestPeer.connect(port);
+      // Nobody is there to admit the first participant, who hosts the room
+      const host = await TestPeer.connect(port);
+      await expect(
+        host.request({ type: 'join', roomId: 'room', userId: 'host' })
+      ).resolves.toMatchObject({ type: 'joined', role: 'host' });
+
+      await expect(
+        guest.request({ type: 'join', roomId: 'room', userId: 'guest' })
+      ).resolves.toEqual(expect.objectContaining({ type: 'lobbyWaiting', userId: 'guest' }));
+      await expect(host.waitFor(message => message.type === 'lobbyRequest')).resolves.toMatchObject(
+        { userId: 'guest' }
+      );
+      await expect(
+        guest.request({ type: 'chatMessage', text: 'let me in' })
+      ).resolves.toMatchObject({ type: 'error', code: 'NOT_IN_ROOM' });
+
+      // A host joining later learns about guests already waiting
+      const cohost = await TestPeer.connect(port);
+      await cohost.request({ type: 'join', roomId: 'room', userId: 'host' });
+      await expect(
+        cohost.waitFor(message => message.type === 'lobbyRequest')
+      ).resolves.toMatchObject({ userId: 'guest' });
+
+      await expect(cohost.request({ type: 'admit', userId: 'guest' })).resolves.toMatchObject({
+        type: 'lobbyResolved',
+        userId: 'guest',
+        admitted: true,
+      });
+      await expect(guest.waitFor(message => message.type === 'joined')).resolves.toMatchObject({
+        roomId: 'room',
+        userId: 'guest',
+        role: 'attendee',
+      });
+
+      const leaver = await TestPeer.connect(port);
+      await leaver.request({ type: 'join', roomId: 'room', userId: 'leaver' });
+      leaver.send({ type: 'leave' });
+      await expect(cohost.waitFor(message => message.type === 'lobbyLeft')).resolves.toMatchObject({
+        userId: 'leaver',
+      });
+      await expect(cohost.request({ type: 'admit', userId: 'leaver' })).resolves.toMatchObject({
+        type: 'error',
+        code: 'PEER_NOT_FOUND',
+      });
+    });
+
+    it('lets a host turn the lobby on and off for one room', async () => {
+      const host = await TestPeer.connect(port);
+      await expect(
+        host.request({ type: 'join', roomId: 'room', userId: 'host' })
+      ).resolves.toMatchObject({ type: 'joined', role: 'host', lobbyEnabled: false });
+      const attendee = await TestPeer.connect(port);
+      await attendee.request({ type: 'join', roomId: 'room', userId: 'attendee' });
+
+      await expect(attendee.request({ type: 'setLobby', enabled: true })).resolves.toMatchObject({
+        type: 'error',
+        code: 'FORBIDDEN',
+      });
+      await expect(host.request({ type: 'setLobby', enabled: true })).resolves.toMatchObject({
+        type: 'lobbyChanged',
+        enabled: true,
+        by: 'host',
+      });
+      await expect(
+        attendee.waitFor(message => message.type === 'lobbyChanged')
+      ).resolves.toMatchObject({ enabled: true, by: 'host' });
+
+      const guest = await TestPeer.connect(port);
+      await expect(
+        guest.request({ type: 'join', roomId: 'room', userId: 'guest' })
+      ).resolves.toMatchObject({ type: 'lobbyWaiting' });
+
+      // Other rooms keep letting everyone in
+      const elsewhere = await TestPeer.connect(port);
+      await expect(
+        elsewhere.request({ type: 'join', roomId: 'other', userId: 'guest2' })
+      ).resolves.toMatchObject({ type: 'joined' });
+
+      await host.request({ type: 'setLobby', enabled: false });
+      const late = await TestPeer.connect(port);
+      await expect(
+        late.request({ type: 'join', roomId: 'room', userId: 'late' })
+      ).resolves.toMatchObject({ type: 'joined', lobbyEnabled: false });
+    });
+  });
+
+  describe('Heartbeat', () => {
+    it('answers pings and drops peers that stop sending them', async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0, heartbeatTimeout: 100, sessionGracePeriod: 0 });
+      port = await server.whenListening();
+
+      const alice = await TestPeer.connect(port);
+      await alice.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+
+      await expect(bob.request({ type: 'ping', timestamp: 42 })).resolves.toMatchObject({
+        type: 'pong',
+        timestamp: 42,
+      });
+
+      // Alice never pinged, so only bob is held to the timeout
+      await expect(alice.waitFor(message => message.type === 'peerLeft')).resolves.toMatchObject({
+        userId: 'bob',
+      });
+      expect(alice.received('peerLeft')).toHaveLength(0);
+    });
+  });
+
+  describe('Session Resumption', () => {
+    it('holds disconnected peers for the grace period so they can resume', async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0, sessionGracePeriod: 200 });
+      port = await server.whenListening();
+
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+      const alice = await TestPeer.connect(port);
+      const { sessionId } = await alice.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      const transport = await alice.request({ type: 'createWebRtcTransport', consuming: false });
+      await alice.request({
+        type: 'produce',
+        transportId: transport.transportId,
+        kind: 'audio',
+        rtpParameters: {},
+      });
+
+      // A live connection cannot be taken over without tokens
+      const intruder = await TestPeer.connect(port);
+      await expect(intruder.request({ type: 'resume', sessionId })).resolves.toMatchObject({
+        type: 'error',
+        code: 'SESSION_ACTIVE',
+      });
+      await expect(
+        alice.request({ type: 'createWebRtcTransport', consuming: true })
+      ).resolves.toMatchObject({ type: 'webRtcTransportCreated' });
+
+      alice.close();
+      await settle();
+      expect(bob.received('peerLeft')).toHaveLength(0);
+      expect(bob.received('producerClosed')).toHaveLength(0);
+
+      const resumed = await TestPeer.connect(port);
+      await expect(
+        resumed.request({ type: 'resume', sessionId: 'unknown' })
+      ).resolves.toMatchObject({ type: 'error', code: 'SESSION_NOT_FOUND' });
+      await expect(resumed.request({ type: 'resume', sessionId })).resolves.toMatchObject({
+        type: 'joined',
+        userId: 'alice',
+        sessionId,
+        peers: [expect.objectContaining({ userId: 'bob' })],
+      });
+      // Transports survived, so ICE restarts instead of recreating them
+      await expect(
+        resumed.request({ type: 'restartIce', transportId: transport.transportId })
+      ).resolves.toMatchObject({ type: 'iceRestarted' });
+
+      // Without a resume in time the peer is released as if it had left
+      resumed.close();
+      await expect(bob.waitFor(message => message.type === 'peerLeft')).resolves.toEqual({
+        type: 'peerLeft',
+        userId: 'alice',
+      });
+      expect(bob.received('producerClosed')).toHaveLength(1);
+      const late = await TestPeer.connect(port);
+      await expect(late.request({ type: 'resume', sessionId })).resolves.toMatchObject({
+        type: 'error',
+        code: 'SESSION_NOT_FOUND',
+      });
+    });
+  });
+
+  describe('Active Speaker', () => {
+    it('broadcasts reported levels and the loudest speaker to the room', async () => {
+      const alice = await TestPeer.connect(port);
+      await alice.request({ type: 'join', roomId: 'room', userId: 'alice' });
+      const bob = await TestPeer.connect(port);
+      await bob.request({ type: 'join', roomId: 'room', userId: 'bob' });
+
+      alice.send({ type: 'reportAudioLevel', level: 0.2 });
+      bob.send({ type: 'reportAudioLevel', level: 0.7 });
+      bob.send({ type: 'reportAudioLevel', level: 0.4 });
+
+      const levels = await alice.waitFor(message => message.type === 'audioLevels');
+      expect(levels.levels).toEqual([
+        { userId: 'bob', level: 0.7 },
+        { userId: 'alice', level: 0.2 },
+      ]);
+      await expect(
+        alice.waitFor(message => message.type === 'activeSpeaker')
+      ).resolves.toMatchObject({ userId: 'bob' });
+
+      const carol = await TestPeer.connect(port);
+      const joined = await carol.request({ type: 'join', roomId: 'room', userId: 'carol' });
+      expect(joined.activeSpeaker).toBe('bob');
+
+      const invalid = await alice.request({ type: 'reportAudioLevel', level: 3 });
+      expect(invalid).toMatchObject({ type: 'error', code: 'INVALID_AUDIO_LEVEL' });
+    });
+  });
+
+  describe('Multi-client Calls', () => {
+    const clients: VideoCallClient[] = [];
+
+    afterEach(async () => {
+      for (const client of clients.splice(0)) {
+        await client.leaveCall();
+      }
+    });
+
+    async function joinAndWaitForDevice(roomId: string, userId: string) {
+      const client = new VideoCallClient(`ws://localhost:${port}`, {
+        reconnection: { baseDelay: 10 },
+      });
+      clients.push(client);
+
+      const deviceReady = waitForEvent(client, 'deviceReady');
+      await client.joinCall(roomId, userId);
+      await deviceReady;
+      return client;
+    }
+
+    it('consumes producers that existed before joining', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      await alice.startVideo();
+      await alice.startAudio();
+
+      const bob = new VideoCallClient(`ws://localhost:${port}`);
+      clients.push(bob);
+      const joined = waitForEvent(bob, 'joined');
+      const remoteVideo = waitForEvent(bob, 'remoteVideoStarted');
+      const remoteAudio = waitForEvent(bob, 'remoteAudioStarted');
+      await bob.joinCall('room', 'bob');
+
+      const { peers } = await joined;
+      expect(peers).toHaveLength(1);
+      expect(peers[0].userId).toBe('alice');
+      expect(peers[0].producers.map(producer => producer.kind).sort()).toEqual(['audio', 'video']);
+
+      await expect(remoteVideo).resolves.toMatchObject({ userId: 'alice' });
+      await expect(remoteAudio).resolves.toMatchObject({ userId: 'alice' });
+    });
+
+    it('recreates transports and media after reconnecting', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+
+      const remoteVideo = waitForEvent(alice, 'remoteVideoStarted');
+      await bob.startVideo();
+      const { producerId } = await remoteVideo;
+      const bobHearsAliceBefore = waitForEvent(bob, 'remoteAudioStarted');
+      await alice.startAudio();
+      await bobHearsAliceBefore;
+
+      const recovered = waitForEvent(alice, 'mediaRecovered');
+      const bobHearsAlice = waitForEvent(bob, 'remoteAudioStarted');
+
+      // Drop the connection the way a network failure would
+      (alice as any).connectionManager.signaling.terminate();
+
+      await expect(recovered).resolves.toEqual({
+        iceRestarted: false,
+        localMedia: ['audio'],
+        remoteProducers: [producerId],
+      });
+      expect(alice.remoteVideoTracks.has(producerId)).toBe(true);
+      await expect(bobHearsAlice).resolves.toMatchObject({ userId: 'alice' });
+    }, 10000);
+
+    it('resumes the same peer after a brief disconnect without others noticing', async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0 });
+      port = await server.whenListening();
+
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+      const bobHearsAlice = waitForEvent(bob, 'remoteAudioStarted');
+      await alice.startAudio();
+      await bobHearsAlice;
+
+      const participantLeft = vi.fn();
+      bob.on('participantLeft', participantLeft);
+      const recovered = waitForEvent(alice, 'mediaRecovered');
+      (alice as any).connectionManager.signaling.terminate();
+
+      await expect(recovered).resolves.toEqual({
+        iceRestarted: true,
+        localMedia: [],
+        remoteProducers: [],
+      });
+      await settle();
+      expect(participantLeft).not.toHaveBeenCalled();
+      expect(bob.remoteAudioTracks.size).toBe(1);
+    });
+
+    it('sends messages held during an outage once the session is resumed', async () => {
+      await server.close();
+      server = new SignalingServer({ port: 0 });
+      port = await server.whenListening();
+
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+      const bobHearsAlice = waitForEvent(bob, 'remoteAudioStarted');
+      await alice.startAudio();
+      await bobHearsAlice;
+
+      const reconnecting = waitForEvent(alice, 'reconnecting');
+      (alice as any).connectionManager.signaling.terminate();
+      await reconnecting;
+
+      const remoteMuted = waitForEvent(bob, 'remoteMuteChanged');
+      const chatReceived = waitForEvent(bob, 'chatMessageReceived');
+      const muted = alice.muteAudio();
+      const sent = alice.sendChatMessage('back soon');
+
+      await expect(sent).resolves.toMatchObject({ from: 'alice', text: 'back soon' });
+      await muted;
+      await expect(remoteMuted).resolves.toMatchObject({ userId: 'alice', muted: true });
+      await expect(chatReceived).resolves.toMatchObject({ text: 'back soon' });
+    });
+
+    it('fails over to the next server when the current one goes down', async () => {
+      const backup = new SignalingServer({ port: 0 });
+      const primaryUrl = `ws://localhost:${port}`;
+      const backupUrl = `ws://localhost:${await backup.whenListening()}`;
+
+      const client = new VideoCallClient([primaryUrl, backupUrl], {
+        reconnection: { baseDelay: 10 },
+      });
+      await client.joinCall('room', 'alice');
+      expect(client.connectionStatus.serverUrl).toBe(primaryUrl);
+
+      const serverChanged = waitForEvent(client, 'serverChanged');
+      const reconnected = waitForEvent(client, 'reconnected');
+      await server.close();
+
+      await expect(serverChanged).resolves.toEqual({ from: primaryUrl, to: backupUrl });
+      await reconnected;
+      expect(client.connectionStatus.serverUrl).toBe(backupUrl);
+      expect(client.connectionStatus.inRoom).toBe(true);
+
+      await client.leaveCall();
+      await backup.close();
+    });
+
+    it('abandons a reconnection attempt that opens after its timeout', async () => {
+      // The first reconnection attempt opens too late, the ones after it right away
+      const openDelays = [0, 150];
+      const opened: number[] = [];
+      let created = 0;
+      const transport = (): SignalingTransport => {
+        const index = created++;
+        const loopback = new LoopbackTransport(server);
+        return {
+          get state() {
+            return loopback.state;
+          },
+          connect: listener => {
+            const onOpen = () => {
+              opened.push(index);
+              listener.onOpen();
+            };
+            setTimeout(() => loopback.connect({ ...listener, onOpen }), openDelays[index] ?? 0);
+          },
+          send: data => loopback.send(data),
+          close: () => loopback.close(),
+          terminate: () => loopback.terminate(),
+        };
+      };
+
+      const client = new VideoCallClient('loopback', {
+        reconnection: { baseDelay: 10, connectTimeout: 50 },
+        transport,
+      });
+      clients.push(client);
+      await client.joinCall('room', 'alice');
+
+      const reconnected = vi.fn();
+      client.on('reconnected', reconnected);
+      (client as any).connectionManager.signaling.terminate();
+
+      await vi.waitFor(() => expect(reconnected).toHaveBeenCalled());
+      await new Promise(resolve => setTimeout(resolve, 200));
+      expect(opened).toEqual([0, 2]);
+      expect(reconnected).toHaveBeenCalledTimes(1);
+      expect(client.connectionStatus.inRoom).toBe(true);
+    });
+
+    it('runs calls over the in-memory loopback transport', async () => {
+      const joinOverLoopback = async (userId: string) => {
+        const client = new VideoCallClient('loopback', {
+          transport: () => new LoopbackTransport(server),
+        });
+        clients.push(client);
+        const deviceReady = waitForEvent(client, 'deviceReady');
+        await client.joinCall('room', userId);
+        await deviceReady;
+        return client;
+      };
+      const alice = await joinOverLoopback('alice');
+      const bob = await joinOverLoopback('bob');
+
+      const remoteVideo = waitForEvent(alice, 'remoteVideoStarted');
+      await bob.startVideo();
+      await expect(remoteVideo).resolves.toMatchObject({ userId: 'bob' });
+
+      const participantLeft = waitForEvent(alice, 'participantLeft');
+      await bob.leaveCall();
+      await expect(participantLeft).resolves.toEqual({ userId: 'bob' });
+    });
+
+    it('rejoins on the same client after leaving without reconnecting', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const reconnecting = vi.fn();
+      alice.on('reconnecting', reconnecting);
+
+      await alice.leaveCall();
+      const deviceReady = waitForEvent(alice, 'deviceReady');
+      await alice.joinCall('room', 'alice');
+      await deviceReady;
+
+      await settle();
+      expect(reconnecting).not.toHaveBeenCalled();
+      expect(alice.connectionStatus.inRoom).toBe(true);
+    });
+
+    it('reports participants joining and leaving', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+
+      const participantJoined = waitForEvent(alice, 'participantJoined');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+      await expect(participantJoined).resolves.toEqual({ userId: 'bob' });
+
+      const participantLeft = waitForEvent(alice, 'participantLeft');
+      await bob.leaveCall();
+      await expect(participantLeft).resolves.toEqual({ userId: 'bob' });
+    });
+
+    it('delivers remote video to participants already in the room', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+
+      const remoteVideo = waitForEvent(alice, 'remoteVideoStarted');
+      await bob.startVideo();
+
+      await expect(remoteVideo).resolves.toMatchObject({ userId: 'bob' });
+      expect(alice.remoteVideoTracks.size).toBe(1);
+
+      const remoteVideoStopped = waitForEvent(alice, 'remoteVideoStopped');
+      await bob.stopVideo();
+
+      await expect(remoteVideoStopped).resolves.toMatchObject({ userId: 'bob' });
+      expect(alice.remoteVideoTracks.size).toBe(0);
+    });
+
+    it('reports the signaling round trip once the heartbeat is answered', async () => {
+      const client = new VideoCallClient(`ws://localhost:${port}`, { heartbeat: { interval: 20 } });
+      clients.push(client);
+      await client.joinCall('room', 'alice');
+      expect(client.connectionStatus.rtt).toBeUndefined();
+
+      await vi.waitFor(() => expect(client.connectionStatus.rtt).toBeGreaterThanOrEqual(0));
+    });
+
+    it('tells camera and screen share video apart', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+
+      const camera = waitForEvent(alice, 'remoteVideoStarted');
+      await bob.startVideo();
+      await expect(camera).resolves.toMatchObject({ userId: 'bob', source: 'camera' });
+
+      const screen = waitForEvent(alice, 'remoteVideoStarted');
+      const screenShareStarted = waitForEvent(bob, 'localScreenShareStarted');
+      await bob.startScreenShare();
+      const remoteScreen = await screen;
+      expect(remoteScreen).toMatchObject({ userId: 'bob', source: 'screen' });
+      const { producerId } = remoteScreen;
+      expect(alice.remoteVideoTracks.get(producerId)?.source).toBe('screen');
+
+      // The browser's "Stop sharing" button ends the captured track
+      const screenShareStopped = waitForEvent(bob, 'localScreenShareStopped');
+      const remoteScreenStopped = waitForEvent(alice, 'remoteVideoStopped');
+      const { producer } = await screenShareStarted;
+      (producer as any).emit('trackended');
+
+      await screenShareStopped;
+      await expect(remoteScreenStopped).resolves.toEqual({ userId: 'bob', producerId });
+      expect(bob.connectionStatus.hasScreenShare).toBe(false);
+      expect(alice.remoteVideoTracks.size).toBe(1);
+    });
+
+    it('shows remote mute state to other participants', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+
+      const remoteAudio = waitForEvent(alice, 'remoteAudioStarted');
+      await bob.startAudio();
+      const { producerId } = await remoteAudio;
+
+      const muted = waitForEvent(alice, 'remoteMuteChanged');
+      await bob.muteAudio();
+      expect(bob.isAudioMuted).toBe(true);
+      await expect(muted).resolves.toEqual({
+        userId: 'bob',
+        producerId,
+        kind: 'audio',
+        muted: true,
+      });
+      expect(alice.remoteAudioTracks.get(producerId)?.muted).toBe(true);
+
+      const unmuted = waitForEvent(alice, 'remoteMuteChanged');
+      await bob.unmuteAudio();
+      await expect(unmuted).resolves.toMatchObject({ producerId, muted: false });
+    });
+
+    it('announces the active speaker to other participants', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+
+      const speaker = waitForEvent(alice, 'activeSpeakerChanged');
+      await bob.startAudio();
+
+      await expect(speaker).resolves.toEqual({ userId: 'bob' });
+      expect(alice.activeSpeaker).toBe('bob');
+    });
+
+    it('lets the host mute, remove and end the call for participants', async () => {
+      const host = await joinAndWaitForDevice('room', 'host');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+      const carol = await joinAndWaitForDevice('room', 'carol');
+      expect(host.role).toBe('host');
+      expect(bob.role).toBe('attendee');
+
+      const hostHearsBob = waitForEvent(host, 'remoteAudioStarted');
+      await bob.startAudio();
+      await hostHearsBob;
+
+      const youWereMuted = waitForEvent(bob, 'youWereMuted');
+      const remoteMuted = waitForEvent(host, 'remoteMuteChanged');
+      await host.muteParticipant('bob');
+      await expect(youWereMuted).resolves.toEqual({ kind: 'audio', by: 'host' });
+      await expect(remoteMuted).resolves.toMatchObject({ userId: 'bob', muted: true });
+      expect(bob.isAudioMuted).toBe(true);
+
+      await expect(bob.lockRoom()).rejects.toMatchObject({ code: 'FORBIDDEN' });
+      const roomLocked = waitForEvent(carol, 'roomLocked');
+      await host.lockRoom();
+      await expect(roomLocked).resolves.toEqual({ locked: true, by: 'host' });
+
+      const bobRemoved = waitForEvent(bob, 'youWereRemoved');
+      const bobLeft = waitForEvent(host, 'participantLeft');
+      const bobErrors = vi.fn();
+      bob.on('error', bobErrors);
+      const bobRequests = vi.spyOn((bob as any).connectionManager, 'request');
+      await host.removeParticipant('bob');
+      await expect(bobRemoved).resolves.toEqual({ reason: 'removed', by: 'host' });
+      await expect(bobLeft).resolves.toEqual({ userId: 'bob' });
+      expect(bob.connectionStatus.inRoom).toBe(false);
+      expect(bob.connectionStatus.hasAudio).toBe(false);
+      // The server already released the removed peer's producers
+      expect(bobRequests).not.toHaveBeenCalled();
+      expect(bobErrors).not.toHaveBeenCalled();
+
+      const carolRemoved = waitForEvent(carol, 'youWereRemoved');
+      const hostErrors = vi.fn();
+      const carolErrors = vi.fn();
+      host.on('error', hostErrors);
+      carol.on('error', carolErrors);
+      await host.endCallForAll();
+      await expect(carolRemoved).resolves.toEqual({ reason: 'callEnded', by: 'host' });
+      expect(host.connectionStatus.inRoom).toBe(false);
+      expect(carol.connectionStatus.inRoom).toBe(false);
+      await settle();
+      expect(hostErrors).not.toHaveBeenCalled();
+      expect(carolErrors).not.toHaveBeenCalled();
+    });
+
+    it('resolves joinCall once a host admits the participant from the lobby', async () => {
+      const host = await joinAndWaitForDevice('room', 'host');
+      await host.lockRoom();
+
+      const guest = new VideoCallClient(`ws://localhost:${port}`);
+      clients.push(guest);
+      const statuses: string[] = [];
+      guest.on('lobbyStatusChanged', ({ status }) => statuses.push(status));
+
+      const lobbyRequest = waitForEvent(host, 'lobbyRequest');
+      const joining = guest.joinCall('room', 'guest');
+      await expect(lobbyRequest).resolves.toEqual({ userId: 'guest' });
+      expect(host.waitingParticipants).toEqual(['guest']);
+
+      const closed = waitForEvent(host, 'lobbyRequestClosed');
+      await host.admitParticipant('guest');
+      await joining;
+      await expect(closed).resolves.toEqual({ userId: 'guest', outcome: 'admitted', by: 'host' });
+      expect(statuses).toEqual(['waiting', 'admitted']);
+      expect(host.waitingParticipants).toEqual([]);
+
+      const denied = new VideoCallClient(`ws://localhost:${port}`);
+      clients.push(denied);
+      const deniedJoin = expect(denied.joinCall('room', 'stranger')).rejects.toMatchObject({
+        code: 'LOBBY_DENIED',
+      });
+      await waitForEvent(host, 'lobbyRequest');
+      await host.denyParticipant('stranger');
+      await deniedJoin;
+      expect(denied.connectionStatus.inRoom).toBe(false);
+    });
+
+    it('sends broadcast and direct chat messages', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+      const carol = await joinAndWaitForDevice('room', 'carol');
+      const carolReceived = vi.fn();
+      carol.on('chatMessageReceived', carolReceived);
+
+      const broadcast = waitForEvent(bob, 'chatMessageReceived');
+      const sent = await alice.sendChatMessage('Hello everyone');
+      await expect(broadcast).resolves.toEqual(sent);
+
+      const direct = waitForEvent(bob, 'chatMessageReceived');
+      await alice.sendChatMessage('Just for you', { to: 'bob' });
+      await expect(direct).resolves.toMatchObject({ from: 'alice', to: 'bob' });
+
+      expect(carolReceived).toHaveBeenCalledTimes(1);
+      expect(alice.chatMessages.map(message => message.text)).toEqual([
+        'Hello everyone',
+        'Just for you',
+      ]);
+    });
+
+    it('delivers data channel messages to other participants', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+      const received = vi.fn();
+      alice.on('dataReceived', received);
+
+      // Messages sent before alice consumes the newly opened channel are not delivered
+      await vi.waitFor(async () => {
+        await bob.sendData('reactions', '👍');
+        expect(received).toHaveBeenCalled();
+      });
+      expect(received).toHaveBeenCalledWith({ userId: 'bob', label: 'reactions', data: '👍' });
+    });
+
+    it('switches cameras in place and falls back when the camera is unplugged', async () => {
+      fakeDevices = [
+        { deviceId: 'camera-1', kind: 'videoinput', label: 'Built-in' },
+        { deviceId: 'camera-2', kind: 'videoinput', label: 'USB' },
+        { deviceId: 'mic-1', kind: 'audioinput', label: 'Built-in' },
+      ];
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const devices = await alice.listDevices();
+      expect(devices.videoInputs.map(device => device.deviceId)).toEqual(['camera-1', 'camera-2']);
+      expect(devices.audioInputs).toHaveLength(1);
+
+      const videoStarted = waitForEvent(alice, 'localVideoStarted');
+      await alice.startVideo();
+      const { producer } = await videoStarted;
+
+      // A failed switch releases the new camera and keeps the current one
+      producer.replaceTrack.mockRejectedValueOnce(new Error('replaceTrack failed'));
+      await expect(alice.setVideoInput('camera-2')).rejects.toThrow('replaceTrack failed');
+      const failedTrack = producer.replaceTrack.mock.lastCall[0].track;
+      expect(failedTrack.stop).toHaveBeenCalled();
+      expect(alice.connectionStatus.hasVideo).toBe(true);
+
+      await alice.setVideoInput('camera-2');
+      expect(producer.replaceTrack).toHaveBeenLastCalledWith({
+        track: expect.objectContaining({ id: 'camera-2' }),
+      });
+      expect(alice.connectionStatus.hasVideo).toBe(true);
+
+      // Unplugging the selected camera falls back to the default one
+      fakeDevices = fakeDevices.filter(device => device.deviceId !== 'camera-2');
+      const devicesChanged = waitForEvent(alice, 'devicesChanged');
+      deviceChangeListeners.forEach(listener => listener());
+      await devicesChanged;
+      // Queued behind the fallback, so it settles once the camera was replaced
+      await alice.setAudioInput('mic-1');
+
+      expect(producer.replaceTrack).toHaveBeenLastCalledWith({
+        track: expect.objectContaining({ id: 'video-track' }),
+      });
+
+      // Leaving stops listening for device changes
+      const watching = deviceChangeListeners.size;
+      await alice.leaveCall();
+      expect(deviceChangeListeners.size).toBe(watching - 1);
+    });
+
+    it('lets viewers pick the simulcast layer of remote video', async () => {
+      const alice = await joinAndWaitForDevice('room', 'alice');
+      const bob = await joinAndWaitForDevice('room', 'bob');
+
+      const remoteVideo = waitForEvent(alice, 'remoteVideoStarted');
+      await bob.startVideo();
+      const { producerId } = await remoteVideo;
+
+      const layersChanged = waitForEvent(alice, 'layersChanged');
+      await alice.setPreferredLayers(producerId, { spatialLayer: 0 });
+
+      await expect(layersChanged).resolves.toEqual({
+        userId: 'bob',
+        producerId,
+        spatialLayer: 0,
+        temporalLayer: 2,
+      });
+      await expect(alice.setPreferredLayers('unknown', { spatialLayer: 0 })).rejects.toThrow(
+        'No remote video for producer unknown'
+      );
+    });
+  });
+});
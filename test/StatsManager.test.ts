@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { StatsManager, normalizeStats } from '../src/sdk/managers/StatsManager';
+
+/**
+ * Stats report as returned by RTCPeerConnection.getStats()
+ */
+function report(...entries: Array<Record<string, unknown>>): RTCStatsReport {
+  return new Map(entries.map((entry, index) => [`stat-${index}`, entry])) as any;
+}
+
+function statsSource(id: string, getReport: () => RTCStatsReport) {
+  return { id, getStats: vi.fn(async () => getReport()) };
+}
+
+describe('StatsManager', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('normalizeStats', () => {
+    it('sums simulcast streams and keeps the worst loss and RTT', () => {
+      const stats = normalizeStats(
+        report(
+          { type: 'outbound-rtp', bytesSent: 1000, packetsSent: 10 },
+          {
+            type: 'outbound-rtp',
+            bytesSent: 3000,
+            packetsSent: 20,
+            qualityLimitationReason: 'cpu',
+          },
+          { type: 'remote-inbound-rtp', packetsLost: 1, fractionLost: 0.01, roundTripTime: 0.05 },
+          { type: 'remote-inbound-rtp', packetsLost: 2, fractionLost: 0.1, roundTripTime: 0.08 },
+          {
+            type: 'candidate-pair',
+            nominated: true,
+            currentRoundTripTime: 0.02,
+            availableOutgoingBitrate: 2500000,
+          }
+        )
+      );
+
+      expect(stats).toEqual({
+        bytesSent: 4000,
+        packetsSent: 30,
+        packetsLost: 3,
+        fractionLost: 0.1,
+        roundTripTime: 0.08,
+        availableOutgoingBitrate: 2500000,
+        cpuLimited: true,
+      });
+    });
+
+    it('falls back to the candidate pair RTT for receivers', () => {
+      const stats = normalizeStats(
+        report(
+          {
+            type: 'inbound-rtp',
+            bytesReceived: 500,
+            packetsReceived: 5,
+            packetsLost: 1,
+            jitter: 0.004,
+          },
+          { type: 'candidate-pair', nominated: true, currentRoundTripTime: 0.03 }
+        )
+      );
+
+      expect(stats).toEqual({
+        bytesReceived: 500,
+        packetsReceived: 5,
+        packetsLost: 1,
+        jitter: 0.004,
+        roundTripTime: 0.03,
+      });
+    });
+  });
+
+  it('derives bitrates from consecutive samples', async () => {
+    let bytesSent = 0;
+    const producer = statsSource('producer-1', () =>
+      report({ type: 'outbound-rtp', bytesSent, packetsSent: 1 })
+    );
+    const deviceManager = { sendTransportInstance: undefined, recvTransportInstance: undefined };
+    const mediaManager = {
+      localProducers: [{ producer, kind: 'video', source: 'camera' }],
+      remoteConsumerList: [],
+    };
+    const stats = new StatsManager(deviceManager as any, mediaManager as any, 1000);
+
+    const now = vi.spyOn(Date, 'now').mockReturnValue(10000);
+    const first = await stats.collect();
+    expect(first.producers[0]).toMatchObject({ producerId: 'producer-1', bitrate: undefined });
+
+    bytesSent = 125000;
+    now.mockReturnValue(12000);
+    const second = await stats.collect();
+    expect(second.producers[0]).toMatchObject({
+      producerId: 'producer-1',
+      kind: 'video',
+      source: 'camera',
+      bitrate: 500000,
+    });
+    expect(second.send).toBeUndefined();
+    now.mockRestore();
+  });
+
+  it('emits statsUpdated at the configured interval until stopped', async () => {
+    vi.useFakeTimers();
+    const deviceManager = { sendTransportInstance: undefined, recvTransportInstance: undefined };
+    const mediaManager = { localProducers: [], remoteConsumerList: [] };
+    const stats = new StatsManager(deviceManager as any, mediaManager as any, 1000);
+    const listener = vi.fn();
+    stats.on('statsUpdated', listener);
+
+    stats.start();
+    await vi.advanceTimersByTimeAsync(2500);
+    expect(listener).toHaveBeenCalledTimes(2);
+
+    stats.stop();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(listener).toHaveBeenCalledTimes(2);
+  });
+});
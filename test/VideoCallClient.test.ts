@@ -1,5 +1,6 @@
-import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
 import { VideoCallClient } from '../src/sdk/VideoCallClient';
+import { WebSocketTransport } from '../src/sdk/transports/WebSocketTransport';
 import { MockWebSocket } from '../src/types/test'; 
 
 let mockWebSocketInstance: MockWebSocket;
@@ -54,6 +55,9 @@ Object.defineProperty(global, 'navigator', {
   writable: true,
 });
 
+// Clients connect synchronously to the mocked socket once ws has loaded
+beforeAll(() => WebSocketTransport.preload());
+
 describe('VideoCallClient SDK', () => {
   let client: VideoCallClient;
 
@@ -68,6 +72,15 @@ describe('VideoCallClient SDK', () => {
           throw new Error('WebSocket is not open');
         }
         this.sentMessages.push(data);
+        // Admit joins the way the server does, so joinCall() resolves
+        const message = JSON.parse(data);
+        if (message.type === 'join') {
+          setTimeout(() => this.simulateMessage({
+            type: 'joined',
+            roomId: message.roomId,
+            userId: message.userId,
+          }));
+        }
       }),
       
       on: vi.fn().mockImplementation(function(this: any, event: string, callback: Function) {
@@ -76,6 +89,10 @@ describe('VideoCallClient SDK', () => {
         }
         this.listeners.get(event)!.push(callback);
       }),
+
+      close: vi.fn().mockImplementation(function(this: any) {
+        this.simulateClose();
+      }),
       
       simulateOpen() {
         this.readyState = 1;
@@ -161,6 +178,22 @@ describe('VideoCallClient SDK', () => {
       expect(client.connectionStatus.inRoom).toBe(false);
       expect(client.connectionStatus.hasVideo).toBe(false);
     });
+
+    it('should notify the server and close the connection on leave', async () => {
+      const reconnectingSpy = vi.fn();
+      client.on('reconnecting', reconnectingSpy);
+
+      mockWebSocketInstance.simulateOpen();
+      await client.joinCall('room1', 'user1');
+      
+      await client.leaveCall();
+      
+      const sent = mockWebSocketInstance.sentMessages.map(message => JSON.parse(message));
+      expect(sent[sent.length - 1]).toEqual({ type: 'leave' });
+      expect(mockWebSocketInstance.close).toHaveBeenCalled();
+      expect(client.connectionStatus.connected).toBe(false);
+      expect(reconnectingSpy).not.toHaveBeenCalled();
+    });
   });
 
   describe('Event System', () => {
@@ -182,7 +215,8 @@ describe('VideoCallClient SDK', () => {
       
       expect(joinedSpy).toHaveBeenCalledWith({
         roomId: 'test-room',
-        userId: 'test-user'
+        userId: 'test-user',
+        peers: []
       });
     });
 
@@ -219,16 +253,13 @@ describe('VideoCallClient SDK', () => {
       
       // New participant joins
       mockWebSocketInstance.simulateMessage({
-        type: 'newProducer',
-        userId: 'user2',
-        producerId: 'producer123'
+        type: 'peerJoined',
+        userId: 'user2'
       });
       
-      await new Promise(resolve => setTimeout(resolve, 50));
-      
       expect(participantJoinedSpy).toHaveBeenCalledWith({ userId: 'user2' });
       
-      // Participant leaves
+      // Producers alone do not change membership
       mockWebSocketInstance.simulateMessage({
         type: 'producerClosed',
         userId: 'user2',
@@ -237,6 +268,14 @@ describe('VideoCallClient SDK', () => {
       
       await new Promise(resolve => setTimeout(resolve, 50));
       
+      expect(participantLeftSpy).not.toHaveBeenCalled();
+      
+      // Participant leaves
+      mockWebSocketInstance.simulateMessage({
+        type: 'peerLeft',
+        userId: 'user2'
+      });
+      
       expect(participantLeftSpy).toHaveBeenCalledWith({ userId: 'user2' });
     });
 
@@ -252,6 +291,22 @@ describe('VideoCallClient SDK', () => {
         .rejects.toThrow('Client not ready. Call joinCall() first and wait for device initialization.');
     });
 
+    it('should prevent audio start when not ready', async () => {
+      await expect(client.startAudio())
+        .rejects.toThrow('Client not ready. Call joinCall() first and wait for device initialization.');
+    });
+
+    it('should prevent screen share start when not ready', async () => {
+      await expect(client.startScreenShare())
+        .rejects.toThrow('Client not ready. Call joinCall() first and wait for device initialization.');
+      expect(client.connectionStatus.hasScreenShare).toBe(false);
+    });
+
+    it('should provide remote audio tracks', () => {
+      expect(client.remoteAudioTracks).toBeInstanceOf(Map);
+      expect(client.connectionStatus.hasAudio).toBe(false);
+    });
+
     it('should handle video lifecycle events', async () => {
       const localVideoStartedSpy = vi.fn();
       const localVideoStoppedSpy = vi.fn();
@@ -305,6 +360,8 @@ describe('VideoCallClient SDK', () => {
       expect(status).toHaveProperty('deviceReady');
       expect(status).toHaveProperty('inRoom');
       expect(status).toHaveProperty('hasVideo');
+      expect(status).toHaveProperty('hasAudio');
+      expect(status).toHaveProperty('networkQuality');
       expect(status).toHaveProperty('remoteParticipants');
       expect(status).toHaveProperty('queueSize');
       expect(status).toHaveProperty('processing');
@@ -333,6 +390,34 @@ describe('VideoCallClient SDK', () => {
       }).not.toThrow();
     });
   });
+
+  describe('Configuration', () => {
+    it('should accept partial options', () => {
+      expect(
+        () =>
+          new VideoCallClient('ws://test', {
+            reconnection: { maxAttempts: 2 },
+            requestTimeout: 5000,
+            video: { constraints: { width: 1280, height: 720 } },
+          })
+      ).not.toThrow();
+    });
+
+    it('should reject invalid reconnection options', () => {
+      expect(() => new VideoCallClient('ws://test', { reconnection: { maxAttempts: -1 } })).toThrow(
+        "Invalid option 'reconnection.maxAttempts'"
+      );
+      expect(() => new VideoCallClient('ws://test', { requestTimeout: 0 })).toThrow(
+        "Invalid option 'requestTimeout'"
+      );
+    });
+
+    it('should reject empty video encodings', () => {
+      expect(() => new VideoCallClient('ws://test', { video: { encodings: [] } })).toThrow(
+        "Invalid option 'video.encodings'"
+      );
+    });
+  });
 });
 
 describe('Integration Scenarios', () => {
@@ -348,6 +433,15 @@ describe('Integration Scenarios', () => {
           throw new Error('WebSocket is not open');
         }
         this.sentMessages.push(data);
+        // Admit joins the way the server does, so joinCall() resolves
+        const message = JSON.parse(data);
+        if (message.type === 'join') {
+          setTimeout(() => this.simulateMessage({
+            type: 'joined',
+            roomId: message.roomId,
+            userId: message.userId,
+          }));
+        }
       }),
       on: vi.fn().mockImplementation(function(this: any, event: string, callback: Function) {
         if (!this.listeners.has(event)) {
@@ -355,6 +449,10 @@ describe('Integration Scenarios', () => {
         }
         this.listeners.get(event)!.push(callback);
       }),
+
+      close: vi.fn().mockImplementation(function(this: any) {
+        this.simulateClose();
+      }),
       simulateOpen() { 
         this.readyState = 1; 
         this.listeners.get('open')?.forEach((cb: Function) => cb());